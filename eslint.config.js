@@ -95,6 +95,13 @@ export default tseslint.config(
       '@typescript-eslint/no-unused-expressions': 'off',     // Allow unused expressions
     },
   },
+  // Node scripts run outside the browser
+  {
+    files: ['scripts/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
   // Override for shadcn/ui components - disable react-refresh rule
   {
     files: ['src/components/ui/**/*.{ts,tsx}'],
@@ -0,0 +1,208 @@
+/**
+ * Generates customer profiles for every business in a CSV or JSONL file.
+ *
+ *   npm run generate:batch -- clients.csv --out profiles --provider local
+ *
+ * Each row is written as `<key>.json` and `<key>.txt`, identical to the
+ * app's "Export JSON" and "Export Text", and optionally as `<key>.md`. Rows whose outputs already exist
+ * are skipped, so an interrupted run picks up where it stopped; `--force`
+ * regenerates everything. The Blink provider needs a signed-in user's
+ * access token in `BLINK_TOKEN`.
+ */
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import { blink } from '../src/blink/client'
+import { BatchInputError, parseBatchInput, type BatchInputFormat, type BatchRow } from '../src/lib/batch-input'
+import type { GenerationProviderName } from '../src/lib/generation-config'
+import { classifyGenerationError } from '../src/lib/generation-errors'
+import { getGenerationProvider } from '../src/lib/generation-provider'
+import { generateAntiPersona, generateCustomerProfile, renderProfileMarkdown, renderProfileText, serializeProfileExport } from '../src/lib/profile-core'
+import type { ProfileMode } from '../src/lib/profile-mode'
+import { ProfileValidationError } from '../src/lib/profile-schema'
+
+const USAGE = `Usage: npm run generate:batch -- <input.csv|input.jsonl> [options]
+
+Options:
+  --out <dir>          Where to write the profiles (default: profiles)
+  --provider <name>    blink or local (default: blink)
+  --personas <n>       1 for single profiles, 2-6 for persona sets (default: 1).
+                       A "personas" column overrides it per row.
+  --mode <mode>        b2c, b2b or auto to detect it per row (default: auto).
+                       A "mode" column overrides it per row.
+  --concurrency <n>    Rows generated at the same time (default: 3)
+  --format <formats>   Comma-separated json, text and markdown (default: json,text)
+  --input-format <f>   csv or jsonl; detected from the file extension if omitted
+  --explain            Add a rationale and confidence to every field in the JSON
+  --anti-persona       Add an anti-persona: the customers not to target
+  --force              Regenerate rows that already have outputs
+  --help               Show this message`
+
+type OutputFormat = 'json' | 'text' | 'markdown'
+
+const OUTPUT_EXTENSIONS: Record<OutputFormat, string> = { json: 'json', text: 'txt', markdown: 'md' }
+
+class UsageError extends Error {}
+
+function readOptions() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'profiles' },
+      provider: { type: 'string', default: 'blink' },
+      personas: { type: 'string', default: '1' },
+      mode: { type: 'string', default: 'auto' },
+      concurrency: { type: 'string', default: '3' },
+      format: { type: 'string', default: 'json,text' },
+      'input-format': { type: 'string' },
+      explain: { type: 'boolean', default: false },
+      'anti-persona': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input file')
+
+  const input = positionals[0]
+  const inputFormat = values['input-format'] ?? extname(input).slice(1).toLowerCase()
+  if (inputFormat !== 'csv' && inputFormat !== 'jsonl') {
+    throw new UsageError(`Can't tell the input format of "${input}"; pass --input-format csv or jsonl`)
+  }
+  if (values.mode !== 'auto' && values.mode !== 'b2c' && values.mode !== 'b2b') {
+    throw new UsageError(`--mode must be b2c, b2b or auto`)
+  }
+  if (values.provider !== 'blink' && values.provider !== 'local') {
+    throw new UsageError(`Unknown provider "${values.provider}"`)
+  }
+  const formats = values.format.split(',').map(format => format.trim())
+  if (formats.length === 0 || formats.some(format => !(format in OUTPUT_EXTENSIONS))) {
+    throw new UsageError(`--format must be a comma-separated list of json, text and markdown`)
+  }
+  const concurrency = Number(values.concurrency)
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--concurrency must be a positive whole number')
+  const personaCount = Number(values.personas)
+  if (!Number.isInteger(personaCount)) throw new UsageError('--personas must be a whole number')
+
+  return {
+    input,
+    inputFormat: inputFormat as BatchInputFormat,
+    out: values.out,
+    provider: values.provider as GenerationProviderName,
+    personaCount,
+    mode: values.mode === 'auto' ? undefined : values.mode as ProfileMode,
+    concurrency,
+    formats: formats as OutputFormat[],
+    explain: values.explain,
+    antiPersona: values['anti-persona'],
+    force: values.force
+  }
+}
+
+// Written under a temporary name first, so an interrupted write never looks finished
+async function writeAtomically(path: string, content: string) {
+  await writeFile(`${path}.tmp`, content)
+  await rename(`${path}.tmp`, path)
+}
+
+async function runPool<T>(items: T[], limit: number, signal: AbortSignal, worker: (item: T) => Promise<void>) {
+  let next = 0
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal.aborted) {
+      await worker(items[next++])
+    }
+  })
+  await Promise.all(runners)
+}
+
+function describeError(error: unknown) {
+  if (error instanceof ProfileValidationError) {
+    return error.fieldErrors.map(({ path, message }) => `${path}: ${message}`).join('; ')
+  }
+  const kind = classifyGenerationError(error)
+  const message = error instanceof Error ? error.message : String(error)
+  return kind === 'unknown' ? message : `${kind}: ${message}`
+}
+
+async function main() {
+  const options = readOptions()
+  const provider = getGenerationProvider(options.provider, blink.ai)
+
+  if (provider.name === 'blink') {
+    const token = process.env.BLINK_TOKEN
+    if (!token) throw new UsageError('The blink provider needs an access token in BLINK_TOKEN; use --provider local to run offline')
+    await blink.auth.setToken(token)
+  }
+
+  const rows = parseBatchInput(await readFile(options.input, 'utf8'), options.inputFormat)
+  await mkdir(options.out, { recursive: true })
+
+  const outputPath = (row: BatchRow, format: OutputFormat) => join(options.out, `${row.key}.${OUTPUT_EXTENSIONS[format]}`)
+  const pending = options.force
+    ? rows
+    : rows.filter(row => options.formats.some(format => !existsSync(outputPath(row, format))))
+  const skipped = rows.length - pending.length
+  console.log(`${rows.length} rows, ${skipped} already done, generating ${pending.length} with ${provider.label}`)
+
+  // The first Ctrl+C stops new rows and cancels the ones in flight; finished rows are kept
+  const controller = new AbortController()
+  process.once('SIGINT', () => {
+    console.log('\nStopping... run the same command again to resume.')
+    controller.abort()
+  })
+
+  let done = 0
+  let failed = 0
+  await runPool(pending, options.concurrency, controller.signal, async (row) => {
+    try {
+      const personas = await generateCustomerProfile(
+        {
+          businessInfo: row.businessInfo,
+          personaCount: row.personaCount ?? options.personaCount,
+          mode: row.mode ?? options.mode,
+          explain: options.explain
+        },
+        { provider, signal: controller.signal }
+      )
+      const antiPersona = options.antiPersona
+        ? await generateAntiPersona(row.businessInfo, personas, { provider, signal: controller.signal })
+        : undefined
+      const outputs: Record<OutputFormat, () => string> = {
+        json: () => serializeProfileExport(row.businessInfo, personas, antiPersona),
+        text: () => renderProfileText(row.businessInfo, personas, antiPersona),
+        markdown: () => renderProfileMarkdown(row.businessInfo, personas, antiPersona)
+      }
+      for (const format of options.formats) {
+        await writeAtomically(outputPath(row, format), outputs[format]())
+      }
+      done++
+      console.log(`[${done + failed}/${pending.length}] ${row.key}: done`)
+    } catch (error) {
+      if (classifyGenerationError(error) === 'cancelled') return
+      failed++
+      console.error(`[${done + failed}/${pending.length}] ${row.key} (line ${row.line}): failed - ${describeError(error)}`)
+    }
+  })
+
+  console.log(`Generated ${done}, skipped ${skipped}, failed ${failed}${controller.signal.aborted ? ', stopped early' : ''}`)
+  if (controller.signal.aborted) process.exit(130)
+  if (failed > 0) {
+    console.log('Failed rows are retried on the next run.')
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError || error instanceof BatchInputError) {
+    console.error(`${error.message}\n`)
+    if (error instanceof UsageError) console.error(USAGE)
+    process.exit(2)
+  }
+  console.error(error)
+  process.exit(1)
+})
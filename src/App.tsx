@@ -2,12 +2,18 @@ import { useState, useEffect } from 'react'
 import { blink } from './blink/client'
 import { CustomerProfileGenerator } from './components/CustomerProfileGenerator'
 import { LoadingSpinner } from './components/LoadingSpinner'
+import { isLocalMode } from './lib/generation-config'
+import type { User } from './types/profile'
+
+// Stands in for the signed-in user when the app runs without Blink
+const LOCAL_USER: User = { id: 'local', email: 'local@localhost', displayName: 'Local user' }
 
 function App() {
   const [user, setUser] = useState(null)
-  const [loading, setLoading] = useState(true)
+  const [loading, setLoading] = useState(!isLocalMode)
 
   useEffect(() => {
+    if (isLocalMode) return
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
@@ -15,6 +21,14 @@ function App() {
     return unsubscribe
   }, [])
 
+  if (isLocalMode) {
+    return (
+      <div className="min-h-screen bg-background">
+        <CustomerProfileGenerator user={LOCAL_USER} />
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
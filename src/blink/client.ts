@@ -1,6 +1,8 @@
 import { createClient } from '@blinkdotnew/sdk'
+import { isLocalMode } from '../lib/generation-config'
 
 export const blink = createClient({
   projectId: 'creative-customer-profile-generator-przb6d10',
-  authRequired: true
+  // Local mode runs without the network, so there is no sign-in to require
+  authRequired: !isLocalMode
 })
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Separator } from './ui/separator'
+import { cn } from '../lib/utils'
+import { ANTI_PERSONA_LISTS } from '../lib/anti-persona'
+import type { AntiPersona } from '../types/profile'
+import { RefreshCw, UserX } from 'lucide-react'
+
+interface AntiPersonaCardProps {
+  antiPersona: AntiPersona | null
+  isGenerating: boolean
+  /** Generates the anti-persona, replacing the current one. */
+  onGenerate: () => void
+}
+
+const BULLET_CLASSES: Record<(typeof ANTI_PERSONA_LISTS)[number]['key'], string> = {
+  reasons: 'text-destructive',
+  disqualifyingSignals: 'text-primary',
+  redFlagPhrases: 'text-accent'
+}
+
+export function AntiPersonaCard({ antiPersona, isGenerating, onGenerate }: AntiPersonaCardProps) {
+  return (
+    <Card className="border-destructive/30">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <UserX className="h-5 w-5 text-destructive" />
+            {antiPersona ? `Anti-Persona: ${antiPersona.name}` : 'Anti-Persona'}
+          </span>
+          {antiPersona && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={onGenerate}
+              disabled={isGenerating}
+              aria-label="Regenerate anti-persona"
+              title="Regenerate anti-persona"
+            >
+              <RefreshCw className={cn('h-4 w-4', isGenerating && 'animate-spin')} />
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Customers who look attractive but are a poor fit. Use it to qualify leads and to decide whom your marketing should not speak to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {antiPersona ? (
+          <div className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <p>{antiPersona.description}</p>
+              <p className="text-muted-foreground">
+                <span className="font-medium text-foreground">Why they look attractive:</span> {antiPersona.appeal}
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="grid md:grid-cols-3 gap-6">
+              {ANTI_PERSONA_LISTS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <h4 className="text-sm font-medium">{label}</h4>
+                  <ul className="space-y-2">
+                    {antiPersona[key].map((item, index) => (
+                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
+                        <span className={`${BULLET_CLASSES[key]} mt-1`}>•</span>
+                        <span className={cn('flex-1', key === 'redFlagPhrases' && 'italic')}>
+                          {key === 'redFlagPhrases' ? `“${item}”` : item}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : isGenerating ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            Working out whom not to target...
+          </p>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onGenerate}>
+            <UserX className="h-4 w-4 mr-2" />
+            Generate Anti-Persona
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Textarea } from './ui/textarea'
@@ -8,39 +8,35 @@ import { Badge } from './ui/badge'
 import { Separator } from './ui/separator'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Alert, AlertDescription, AlertTitle } from './ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ProfileLibrary } from './ProfileLibrary'
+import { ProfileSections } from './ProfileSections'
+import { AntiPersonaCard } from './AntiPersonaCard'
+import { RefinementChat } from './RefinementChat'
+import { StatementClarityPanel } from './StatementClarityPanel'
+import { StatementInterviewDialog } from './StatementInterviewDialog'
+import { ProfileExportMenu } from './ProfileExportMenu'
+import { StreamingProfilePreview } from './StreamingProfilePreview'
 import { blink } from '../blink/client'
-import { Sparkles, Target, Users, Download, RefreshCw, BookOpen, Save, FileText, Edit3, Lightbulb } from 'lucide-react'
-
-interface User {
-  id: string
-  email: string
-  displayName?: string
-}
-
-interface CustomerProfile {
-  demographics: {
-    ageRange: string
-    gender: string
-    location: string
-    income: string
-    education: string
-  }
-  psychographics: {
-    values: string[]
-    interests: string[]
-    lifestyle: string
-    personality: string
-  }
-  painPoints: string[]
-  motivations: string[]
-  goals: string[]
-  communicationChannels: string[]
-  buyingBehavior: {
-    decisionFactors: string[]
-    purchaseProcess: string
-    budget: string
-  }
-}
+import { useAntiPersona } from '../hooks/use-anti-persona'
+import { usePersonaEditing } from '../hooks/use-persona-editing'
+import { usePersonaExplanations } from '../hooks/use-persona-explanations'
+import { usePersonaRefinement } from '../hooks/use-persona-refinement'
+import { useProfileGeneration } from '../hooks/use-profile-generation'
+import { useProfileLibrary } from '../hooks/use-profile-library'
+import { getGenerationProvider } from '../lib/generation-provider'
+import { generationProviderName } from '../lib/generation-config'
+import { detectProfileMode, getProfileMode, getProfileModeLabel, PROFILE_MODES, type ProfileMode } from '../lib/profile-mode'
+import { getUnexplainedFields } from '../lib/profile-rationale'
+import { getPersonaTitle, isPersonaSet, MAX_PERSONAS, MIN_PERSONAS } from '../lib/profile-personas'
+import { notifyGenerationError } from '../lib/generation-toast'
+import type { ClarityReport, StatementInput, StatementKey } from '../lib/statement-analysis'
+import type { InterviewAnswers } from '../lib/statement-drafting'
+import { cn } from '../lib/utils'
+import { countLocks, hasLocks } from '../lib/profile-locks'
+import type { AntiPersona, BusinessInfo, Persona, SavedProfile, User } from '../types/profile'
+import { Sparkles, Target, Users, RefreshCw, BookOpen, Save, Edit3, Lightbulb, Library, AlertCircle, Lock, MessageSquare, Wand2 } from 'lucide-react'
 
 interface CustomerProfileGeneratorProps {
   user: User
@@ -92,56 +88,87 @@ export function CustomerProfileGenerator({ user }: CustomerProfileGeneratorProps
   const [missionStatement, setMissionStatement] = useState('')
   const [businessDescription, setBusinessDescription] = useState('')
   const [targetMarket, setTargetMarket] = useState('')
-  const [isGenerating, setIsGenerating] = useState(false)
-  const [customerProfile, setCustomerProfile] = useState<CustomerProfile | null>(null)
-  const [savedProfiles, setSavedProfiles] = useState<any[]>([])
-  const [isSaving, setIsSaving] = useState(false)
+  const [clarityCheck, setClarityCheck] = useState<{ statements: StatementInput, report: ClarityReport } | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [showInterview, setShowInterview] = useState(false)
+  const [personas, setPersonas] = useState<Persona[]>([])
+  const [activePersonaId, setActivePersonaId] = useState<string | null>(null)
+  const [personaCount, setPersonaCount] = useState(1)
+  // null follows what detectProfileMode makes of the business info
+  const [modeOverride, setModeOverride] = useState<ProfileMode | null>(null)
+  const [showChat, setShowChat] = useState(false)
   const [showTemplates, setShowTemplates] = useState(false)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const provider = useMemo(() => getGenerationProvider(generationProviderName, blink.ai), [])
+  const library = useProfileLibrary(user.id)
 
   const totalSteps = 3
   const progress = (step / totalSteps) * 100
 
-  // Load saved profiles on component mount
-  useEffect(() => {
-    loadSavedProfiles()
-  }, [loadSavedProfiles])
+  // Everything on the result page works on the persona in the active tab
+  const activePersona = personas.find(persona => persona.id === activePersonaId) ?? personas[0]
+  const customerProfile = activePersona?.customerProfile ?? null
+  const editedFields = activePersona?.editedFields ?? []
+  const lockedFields = activePersona?.lockedFields ?? {}
+  const refinementChat = activePersona?.refinementChat ?? []
+
+  // Takes the persona id explicitly so results of slow requests land on the
+  // persona they were made for, even if the user switched tabs meanwhile
+  const updatePersona = (id: string, update: (persona: Persona) => Persona) => {
+    setPersonas(prev => prev.map(persona => persona.id === id ? update(persona) : persona))
+  }
 
-  const loadSavedProfiles = useCallback(async () => {
-    try {
-      // For now, we'll use localStorage as fallback
-      const saved = localStorage.getItem(`profiles_${user.id}`)
-      if (saved) {
-        setSavedProfiles(JSON.parse(saved))
-      }
-    } catch (error) {
-      console.error('Error loading saved profiles:', error)
-    }
-  }, [user.id])
+  // Memoized so the export menu's template preview only follows real changes
+  const businessInfo: BusinessInfo = useMemo(
+    () => ({ visionStatement, missionStatement, businessDescription, targetMarket }),
+    [visionStatement, missionStatement, businessDescription, targetMarket]
+  )
+  const { antiPersona, isGenerating: isGeneratingAntiPersona, createAntiPersona, resetAntiPersona } = useAntiPersona(provider, businessInfo)
+  const { explainPersona, isExplaining } = usePersonaExplanations(provider, businessInfo, updatePersona)
+  const editing = usePersonaEditing(provider, businessInfo, activePersona, updatePersona, explainPersona)
+  const refinement = usePersonaRefinement(provider, businessInfo, activePersona, updatePersona, explainPersona)
+
+  const showPersonas = (next: Persona[], nextAntiPersona: AntiPersona | null = null) => {
+    setPersonas(next)
+    setActivePersonaId(next[0]?.id ?? null)
+    resetAntiPersona(nextAntiPersona)
+  }
 
-  const saveProfile = async () => {
-    if (!customerProfile) return
-    
-    setIsSaving(true)
-    try {
-      const profileData = {
-        id: Date.now().toString(),
-        profileName: `Profile ${new Date().toLocaleDateString()}`,
-        visionStatement,
-        missionStatement,
-        businessDescription,
-        targetMarket,
-        customerProfile,
-        createdAt: new Date().toISOString()
-      }
-
-      const updated = [...savedProfiles, profileData]
-      setSavedProfiles(updated)
-      localStorage.setItem(`profiles_${user.id}`, JSON.stringify(updated))
-    } catch (error) {
-      console.error('Error saving profile:', error)
-    } finally {
-      setIsSaving(false)
-    }
+  const detectedMode = detectProfileMode(businessInfo)
+  const mode = modeOverride ?? detectedMode.mode
+  // Locks only carry over to a profile of the same customer type
+  const modeLocks = customerProfile && getProfileMode(customerProfile) !== mode ? {} : lockedFields
+
+  const generation = useProfileGeneration({
+    provider,
+    businessInfo,
+    mode,
+    personaCount,
+    locks: modeLocks,
+    editedFields,
+    hasPersonas: personas.length > 0,
+    onStart: () => setStep(3),
+    onGenerated: (generated) => {
+      showPersonas(generated)
+      generated.forEach(persona => explainPersona(persona))
+      createAntiPersona(generated)
+      library.setActiveProfileId(null)
+    },
+    onBackToInputs: () => setStep(2)
+  })
+
+  const openProfile = (profile: SavedProfile) => {
+    setVisionStatement(profile.visionStatement)
+    setMissionStatement(profile.missionStatement)
+    setBusinessDescription(profile.businessDescription)
+    setTargetMarket(profile.targetMarket)
+    setClarityCheck(null)
+    showPersonas(profile.personas, profile.antiPersona ?? null)
+    setPersonaCount(profile.personas.length)
+    setModeOverride(getProfileMode(profile.personas[0].customerProfile))
+    library.setActiveProfileId(profile.id)
+    setShowLibrary(false)
+    setStep(3)
   }
 
   const loadTemplate = (template: ExampleTemplate) => {
@@ -149,158 +176,45 @@ export function CustomerProfileGenerator({ user }: CustomerProfileGeneratorProps
     setMissionStatement(template.mission)
     setBusinessDescription(template.business)
     setTargetMarket(template.target)
+    setClarityCheck(null)
+    setModeOverride(null)
     setShowTemplates(false)
     setStep(2) // Move to step 2 after loading template
   }
 
-  const handleGenerate = async () => {
-    setIsGenerating(true)
-    
+  const handleCheckClarity = async () => {
+    const statements = { visionStatement, missionStatement }
+    setIsAnalyzing(true)
     try {
-      const prompt = `
-        Based on the following business information, create a detailed ideal customer profile:
-        
-        Vision Statement: ${visionStatement}
-        Mission Statement: ${missionStatement}
-        Business Description: ${businessDescription}
-        Target Market: ${targetMarket}
-        
-        Please analyze these statements and create a comprehensive customer profile that includes demographics, psychographics, pain points, motivations, goals, communication channels, and buying behavior.
-      `
-
-      const { object } = await blink.ai.generateObject({
-        prompt,
-        schema: {
-          type: 'object',
-          properties: {
-            demographics: {
-              type: 'object',
-              properties: {
-                ageRange: { type: 'string' },
-                gender: { type: 'string' },
-                location: { type: 'string' },
-                income: { type: 'string' },
-                education: { type: 'string' }
-              },
-              required: ['ageRange', 'gender', 'location', 'income', 'education']
-            },
-            psychographics: {
-              type: 'object',
-              properties: {
-                values: { type: 'array', items: { type: 'string' } },
-                interests: { type: 'array', items: { type: 'string' } },
-                lifestyle: { type: 'string' },
-                personality: { type: 'string' }
-              },
-              required: ['values', 'interests', 'lifestyle', 'personality']
-            },
-            painPoints: { type: 'array', items: { type: 'string' } },
-            motivations: { type: 'array', items: { type: 'string' } },
-            goals: { type: 'array', items: { type: 'string' } },
-            communicationChannels: { type: 'array', items: { type: 'string' } },
-            buyingBehavior: {
-              type: 'object',
-              properties: {
-                decisionFactors: { type: 'array', items: { type: 'string' } },
-                purchaseProcess: { type: 'string' },
-                budget: { type: 'string' }
-              },
-              required: ['decisionFactors', 'purchaseProcess', 'budget']
-            }
-          },
-          required: ['demographics', 'psychographics', 'painPoints', 'motivations', 'goals', 'communicationChannels', 'buyingBehavior']
-        }
-      })
-
-      setCustomerProfile(object as CustomerProfile)
-      setStep(3)
+      setClarityCheck({ statements, report: await provider.analyzeStatements(statements) })
     } catch (error) {
-      console.error('Error generating customer profile:', error)
+      console.error('Error checking statement clarity:', error)
+      notifyGenerationError(error, 'clarity check', () => handleCheckClarity())
     } finally {
-      setIsGenerating(false)
+      setIsAnalyzing(false)
     }
   }
 
-  const handleExportJSON = () => {
-    if (!customerProfile) return
-    
-    const exportData = {
-      generatedAt: new Date().toISOString(),
-      businessInfo: {
-        visionStatement,
-        missionStatement,
-        businessDescription,
-        targetMarket
-      },
-      customerProfile
+  const applyRewrite = (key: StatementKey, rewrite: string) => {
+    if (key === 'visionStatement') setVisionStatement(rewrite)
+    else setMissionStatement(rewrite)
+  }
+
+  const handleDraftStatements = async (answers: InterviewAnswers) => {
+    try {
+      return await provider.draftStatements(answers)
+    } catch (error) {
+      console.error('Error drafting statements:', error)
+      // No retry action: the dialog keeps the answers and can draft again
+      notifyGenerationError(error, 'statement drafting')
+      return null
     }
-    
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'customer-profile.json'
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
   }
 
-  const handleExportText = () => {
-    if (!customerProfile) return
-    
-    const textContent = `
-CUSTOMER PROFILE REPORT
-Generated: ${new Date().toLocaleDateString()}
-
-BUSINESS INFORMATION
-Vision Statement: ${visionStatement}
-Mission Statement: ${missionStatement}
-Business Description: ${businessDescription}
-Target Market: ${targetMarket || 'Not specified'}
-
-CUSTOMER PROFILE
-
-DEMOGRAPHICS
-Age Range: ${customerProfile.demographics.ageRange}
-Gender: ${customerProfile.demographics.gender}
-Location: ${customerProfile.demographics.location}
-Income Level: ${customerProfile.demographics.income}
-Education: ${customerProfile.demographics.education}
-
-PSYCHOGRAPHICS
-Values: ${customerProfile.psychographics.values.join(', ')}
-Interests: ${customerProfile.psychographics.interests.join(', ')}
-Lifestyle: ${customerProfile.psychographics.lifestyle}
-Personality: ${customerProfile.psychographics.personality}
-
-PAIN POINTS
-${customerProfile.painPoints.map(point => `• ${point}`).join('\n')}
-
-MOTIVATIONS
-${customerProfile.motivations.map(motivation => `• ${motivation}`).join('\n')}
-
-GOALS
-${customerProfile.goals.map(goal => `• ${goal}`).join('\n')}
-
-COMMUNICATION CHANNELS
-${customerProfile.communicationChannels.join(', ')}
-
-BUYING BEHAVIOR
-Decision Factors: ${customerProfile.buyingBehavior.decisionFactors.join(', ')}
-Purchase Process: ${customerProfile.buyingBehavior.purchaseProcess}
-Budget Range: ${customerProfile.buyingBehavior.budget}
-    `.trim()
-    
-    const blob = new Blob([textContent], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'customer-profile.txt'
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+  const applyDraftedStatements = (statements: StatementInput) => {
+    setVisionStatement(statements.visionStatement)
+    setMissionStatement(statements.missionStatement)
+    setClarityCheck(null)
   }
 
   const handleReset = () => {
@@ -309,9 +223,32 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
     setMissionStatement('')
     setBusinessDescription('')
     setTargetMarket('')
-    setCustomerProfile(null)
+    setClarityCheck(null)
+    showPersonas([])
+    setPersonaCount(1)
+    setModeOverride(null)
+    generation.resetGeneration()
+    setShowChat(false)
+    library.setActiveProfileId(null)
   }
 
+  // Only the active tab's content is mounted, so one instance is enough
+  const profileSections = customerProfile && (
+    <ProfileSections
+      profile={customerProfile}
+      segment={activePersona.segment}
+      editedFields={editedFields}
+      locks={lockedFields}
+      onToggleLock={editing.toggleFieldLock}
+      onFieldChange={editing.updateField}
+      regeneratingSection={editing.regeneratingSection}
+      onRegenerateSection={editing.regenerateSection}
+      rationales={activePersona.rationales}
+      isExplaining={isExplaining(activePersona.id)}
+      onExplain={() => explainPersona(activePersona, getUnexplainedFields(activePersona.customerProfile, activePersona.rationales), true)}
+    />
+  )
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -333,6 +270,15 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
               <span className="text-sm text-muted-foreground">Step {step} of {totalSteps}</span>
             </div>
             <div className="flex items-center gap-2">
+              {provider.name !== 'blink' && (
+                <Badge variant="outline" title="Profiles are built from templates on this device, not by the AI">
+                  {provider.label}
+                </Badge>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setShowLibrary(true)}>
+                <Library className="h-4 w-4 mr-2" />
+                Library ({library.savedProfiles.length})
+              </Button>
               <span className="text-sm text-muted-foreground">Welcome,</span>
               <Badge variant="secondary">{user.displayName || user.email}</Badge>
             </div>
@@ -340,8 +286,26 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
         </div>
       </div>
 
-      <div className="max-w-4xl mx-auto px-6 py-8">
-        {step === 1 && (
+      <div className={cn('mx-auto px-6 py-8', showChat && step === 3 && !showLibrary ? 'max-w-7xl' : 'max-w-4xl')}>
+        {showLibrary && (
+          <ProfileLibrary
+            profiles={library.savedProfiles}
+            storageStatus={library.storageStatus}
+            quarantined={library.quarantinedProfiles}
+            onDiscardQuarantined={library.discardQuarantinedProfile}
+            failedWrites={library.failedWrites}
+            onRetryFailedWrites={library.retryFailedWrites}
+            onDiscardFailedWrite={library.discardFailedWrite}
+            onImport={library.importProfiles}
+            onOpen={openProfile}
+            onRename={library.renameProfile}
+            onDuplicate={library.duplicateProfile}
+            onDelete={library.deleteProfile}
+            onBack={() => setShowLibrary(false)}
+          />
+        )}
+
+        {!showLibrary && step === 1 && (
           <Card className="animate-fade-in">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -402,6 +366,24 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
                 </Dialog>
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-sm font-medium">Starting from scratch?</h3>
+                  <p className="text-xs text-muted-foreground">Answer a few questions and we'll draft both statements</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setShowInterview(true)}>
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Start Interview
+                </Button>
+                <StatementInterviewDialog
+                  open={showInterview}
+                  onOpenChange={setShowInterview}
+                  hasStatements={!!(visionStatement.trim() || missionStatement.trim())}
+                  onDraft={handleDraftStatements}
+                  onUse={applyDraftedStatements}
+                />
+              </div>
+
               <Separator />
 
               <div className="space-y-2">
@@ -426,18 +408,44 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
                 />
               </div>
 
-              <Button 
-                onClick={() => setStep(2)} 
-                className="w-full"
-                disabled={!visionStatement.trim() || !missionStatement.trim()}
-              >
-                Continue to Business Details
-              </Button>
+              {clarityCheck && (
+                <StatementClarityPanel
+                  report={clarityCheck.report}
+                  analyzed={clarityCheck.statements}
+                  current={{ visionStatement, missionStatement }}
+                  isAnalyzing={isAnalyzing}
+                  onUseRewrite={applyRewrite}
+                  onRecheck={handleCheckClarity}
+                  onClose={() => setClarityCheck(null)}
+                />
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={handleCheckClarity}
+                  disabled={!visionStatement.trim() || !missionStatement.trim() || isAnalyzing}
+                >
+                  {isAnalyzing ? (
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Wand2 className="h-4 w-4 mr-2" />
+                  )}
+                  {isAnalyzing ? 'Checking...' : 'Check Clarity'}
+                </Button>
+                <Button 
+                  onClick={() => setStep(2)} 
+                  className="flex-1"
+                  disabled={!visionStatement.trim() || !missionStatement.trim()}
+                >
+                  Continue to Business Details
+                </Button>
+              </div>
             </CardContent>
           </Card>
         )}
 
-        {step === 2 && (
+        {!showLibrary && step === 2 && (
           <Card className="animate-fade-in">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -471,24 +479,97 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="customer-type">Customer Type</Label>
+                <Select value={modeOverride ?? 'auto'} onValueChange={(value) => setModeOverride(value === 'auto' ? null : value as ProfileMode)}>
+                  <SelectTrigger id="customer-type" className="w-full sm:w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically: {getProfileModeLabel(detectedMode.mode)}</SelectItem>
+                    {PROFILE_MODES.map((option) => (
+                      <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {modeOverride
+                    ? PROFILE_MODES.find(option => option.key === modeOverride)!.description
+                    : detectedMode.signals.length > 0
+                      ? `Detected from words like ${detectedMode.signals.slice(0, 3).map(signal => `"${signal}"`).join(', ')} in your answers.`
+                      : 'Nothing in your answers says who the buyer is, so consumer profiles are generated. Choose Businesses if you sell to companies.'}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="persona-count">Personas</Label>
+                <Select value={String(personaCount)} onValueChange={(value) => setPersonaCount(Number(value))}>
+                  <SelectTrigger id="persona-count" className="w-full sm:w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">One customer profile</SelectItem>
+                    {Array.from({ length: MAX_PERSONAS - MIN_PERSONAS + 1 }, (_, i) => MIN_PERSONAS + i).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        Set of {count} distinct personas
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {personaCount > 1 && (
+                  <p className="text-sm text-muted-foreground">
+                    Each persona covers a different customer segment, with its own name and a note on how it differs.
+                  </p>
+                )}
+              </div>
+
+              {generation.generationErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>The generated profile was incomplete</AlertTitle>
+                  <AlertDescription>
+                    <p>We asked the AI to repair it but these fields were still invalid. Please try again.</p>
+                    <ul className="mt-2 list-disc pl-4">
+                      {generation.generationErrors.map((fieldError) => (
+                        <li key={fieldError.path}>
+                          <code>{fieldError.path}</code>: {fieldError.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {personaCount === 1 && hasLocks(modeLocks) && (
+                <div className="flex items-center justify-between rounded-lg border bg-muted/40 px-4 py-3 text-sm">
+                  <span className="flex items-center gap-2">
+                    <Lock className="h-4 w-4 text-primary" />
+                    {countLocks(modeLocks)} locked {countLocks(modeLocks) === 1 ? 'value' : 'values'} will be kept; everything else is generated around {countLocks(modeLocks) === 1 ? 'it' : 'them'}.
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={editing.clearLocks}>
+                    Clear locks
+                  </Button>
+                </div>
+              )}
+
               <div className="flex gap-3">
                 <Button variant="outline" onClick={() => setStep(1)}>
                   Back
                 </Button>
                 <Button 
-                  onClick={handleGenerate} 
+                  onClick={generation.generate} 
                   className="flex-1"
-                  disabled={!businessDescription.trim() || isGenerating}
+                  disabled={!businessDescription.trim() || generation.isGenerating}
                 >
-                  {isGenerating ? (
+                  {generation.isGenerating ? (
                     <>
                       <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                      Generating Profile...
+                      {personaCount > 1 ? 'Generating Personas...' : 'Generating Profile...'}
                     </>
                   ) : (
                     <>
                       <Sparkles className="h-4 w-4 mr-2" />
-                      Generate Customer Profile
+                      {personaCount > 1 ? `Generate ${personaCount} Personas` : 'Generate Customer Profile'}
                     </>
                   )}
                 </Button>
@@ -497,212 +578,101 @@ Budget Range: ${customerProfile.buyingBehavior.budget}
           </Card>
         )}
 
-        {step === 3 && customerProfile && (
-          <div className="space-y-6 animate-fade-in">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center justify-between">
-                  <span className="flex items-center gap-2">
-                    <Target className="h-5 w-5 text-primary" />
-                    Your Ideal Customer Profile
-                  </span>
-                  <div className="flex gap-2">
-                    <Button variant="outline" size="sm" onClick={saveProfile} disabled={isSaving}>
-                      {isSaving ? (
-                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <Save className="h-4 w-4 mr-2" />
-                      )}
-                      {isSaving ? 'Saving...' : 'Save Profile'}
-                    </Button>
-                    <div className="flex gap-1">
-                      <Button variant="outline" size="sm" onClick={handleExportJSON}>
-                        <FileText className="h-4 w-4 mr-2" />
-                        JSON
-                      </Button>
-                      <Button variant="outline" size="sm" onClick={handleExportText}>
-                        <Download className="h-4 w-4 mr-2" />
-                        Text
-                      </Button>
-                    </div>
-                    <Button variant="outline" size="sm" onClick={handleReset}>
-                      <RefreshCw className="h-4 w-4 mr-2" />
-                      Start Over
-                    </Button>
-                  </div>
-                </CardTitle>
-                <CardDescription>
-                  Based on your vision and mission, here's your detailed customer profile
-                </CardDescription>
-              </CardHeader>
-            </Card>
-
-            <div className="grid md:grid-cols-2 gap-6">
-              {/* Demographics */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Demographics</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <Label className="text-sm font-medium">Age Range</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.demographics.ageRange}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Gender</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.demographics.gender}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Location</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.demographics.location}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Income Level</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.demographics.income}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Education</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.demographics.education}</p>
-                  </div>
-                </CardContent>
-              </Card>
+        {!showLibrary && step === 3 && generation.streamingProfile && (
+          <StreamingProfilePreview
+            profile={generation.streamingProfile}
+            mode={mode}
+            caption={generation.streamingCaption}
+            isStreaming={generation.isGenerating}
+            onResume={generation.generate}
+            onCancel={generation.cancelGeneration}
+            onDiscard={generation.discardStreamingProfile}
+          />
+        )}
 
-              {/* Psychographics */}
+        {!showLibrary && step === 3 && !generation.streamingProfile && customerProfile && (
+          <div className={cn(showChat && 'grid gap-6 lg:grid-cols-[minmax(0,1fr)_380px] items-start')}>
+            <div className="space-y-6 animate-fade-in">
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">Psychographics</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div>
-                    <Label className="text-sm font-medium">Values</Label>
-                    <div className="flex flex-wrap gap-1 mt-1">
-                      {customerProfile.psychographics.values.map((value, index) => (
-                        <Badge key={index} variant="secondary" className="text-xs">
-                          {value}
-                        </Badge>
-                      ))}
-                    </div>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Interests</Label>
-                    <div className="flex flex-wrap gap-1 mt-1">
-                      {customerProfile.psychographics.interests.map((interest, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          {interest}
-                        </Badge>
-                      ))}
+                  <CardTitle className="flex items-center justify-between gap-4">
+                    <span className="flex items-center gap-2 shrink-0">
+                      <Target className="h-5 w-5 text-primary" />
+                      {isPersonaSet(personas) ? 'Your Customer Personas' : 'Your Ideal Customer Profile'}
+                    </span>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => library.saveProfile(businessInfo, personas, antiPersona)} disabled={library.isSaving}>
+                        {library.isSaving ? (
+                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Save className="h-4 w-4 mr-2" />
+                        )}
+                        {library.isSaving ? 'Saving...' : isPersonaSet(personas) ? 'Save Set' : 'Save Profile'}
+                      </Button>
+                      <ProfileExportMenu businessInfo={businessInfo} personas={personas} antiPersona={antiPersona} />
+                      <Button variant={showChat ? 'secondary' : 'outline'} size="sm" onClick={() => setShowChat(!showChat)}>
+                        <MessageSquare className="h-4 w-4 mr-2" />
+                        Refine
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setStep(2)}>
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        Regenerate
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleReset}>
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Start Over
+                      </Button>
                     </div>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Lifestyle</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.psychographics.lifestyle}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Personality</Label>
-                    <p className="text-sm text-muted-foreground">{customerProfile.psychographics.personality}</p>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* Pain Points */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Pain Points</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ul className="space-y-2">
-                    {customerProfile.painPoints.map((pain, index) => (
-                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
-                        <span className="text-destructive mt-1">•</span>
-                        {pain}
-                      </li>
-                    ))}
-                  </ul>
-                </CardContent>
-              </Card>
-
-              {/* Motivations */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Motivations</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ul className="space-y-2">
-                    {customerProfile.motivations.map((motivation, index) => (
-                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
-                        <span className="text-primary mt-1">•</span>
-                        {motivation}
-                      </li>
-                    ))}
-                  </ul>
-                </CardContent>
-              </Card>
-
-              {/* Goals */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Goals</CardTitle>
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-2">
+                    {isPersonaSet(personas)
+                      ? `Based on your vision and mission, here are ${personas.length} distinct customer segments`
+                      : "Based on your vision and mission, here's your detailed customer profile"}
+                    {editedFields.length > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        <Edit3 className="h-3 w-3 mr-1" />
+                        Edited ({editedFields.length} {editedFields.length === 1 ? 'field' : 'fields'})
+                      </Badge>
+                    )}
+                  </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <ul className="space-y-2">
-                    {customerProfile.goals.map((goal, index) => (
-                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
-                        <span className="text-accent mt-1">•</span>
-                        {goal}
-                      </li>
-                    ))}
-                  </ul>
-                </CardContent>
               </Card>
 
-              {/* Communication Channels */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Communication Channels</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {customerProfile.communicationChannels.map((channel, index) => (
-                      <Badge key={index} variant="default" className="text-xs">
-                        {channel}
-                      </Badge>
+              {isPersonaSet(personas) ? (
+                <Tabs value={activePersona.id} onValueChange={setActivePersonaId}>
+                  <TabsList className="h-auto w-full flex-wrap justify-start">
+                    {personas.map((persona, index) => (
+                      <TabsTrigger key={persona.id} value={persona.id}>
+                        {getPersonaTitle(persona, index)}
+                      </TabsTrigger>
                     ))}
-                  </div>
-                </CardContent>
-              </Card>
+                  </TabsList>
+                  {personas.map((persona) => (
+                    <TabsContent key={persona.id} value={persona.id} className="space-y-6">
+                      {profileSections}
+                    </TabsContent>
+                  ))}
+                </Tabs>
+              ) : profileSections}
+
+              <AntiPersonaCard
+                antiPersona={antiPersona}
+                isGenerating={isGeneratingAntiPersona}
+                onGenerate={() => createAntiPersona(personas, true)}
+              />
             </div>
 
-            {/* Buying Behavior */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Buying Behavior</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label className="text-sm font-medium">Decision Factors</Label>
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {customerProfile.buyingBehavior.decisionFactors.map((factor, index) => (
-                      <Badge key={index} variant="secondary" className="text-xs">
-                        {factor}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-                
-                <Separator />
-                
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div>
-                    <Label className="text-sm font-medium">Purchase Process</Label>
-                    <p className="text-sm text-muted-foreground mt-1">{customerProfile.buyingBehavior.purchaseProcess}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Budget Range</Label>
-                    <p className="text-sm text-muted-foreground mt-1">{customerProfile.buyingBehavior.budget}</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {showChat && (
+              <RefinementChat
+                profile={customerProfile}
+                messages={refinementChat}
+                isSending={refinement.isRefining}
+                onSend={refinement.refine}
+                onAccept={(id) => refinement.resolveRefinement(id, 'accepted')}
+                onReject={(id) => refinement.resolveRefinement(id, 'rejected')}
+                onClose={() => setShowChat(false)}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,158 @@
+import { useState, type KeyboardEvent, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { ArrowDown, ArrowUp, Check, Edit3, Plus, Trash2, X } from 'lucide-react'
+
+interface EditableTextProps {
+  value: string
+  onChange: (value: string) => void
+  multiline?: boolean
+  className?: string
+}
+
+export function EditableText({ value, onChange, multiline = false, className }: EditableTextProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+
+  const startEditing = () => {
+    setDraft(value)
+    setIsEditing(true)
+  }
+
+  const commit = () => {
+    const next = draft.trim()
+    if (next && next !== value) {
+      onChange(next)
+    }
+    setIsEditing(false)
+  }
+
+  if (!isEditing) {
+    return (
+      <div className="group flex items-start gap-2">
+        <p className={className ?? 'text-sm text-muted-foreground'}>{value}</p>
+        <button
+          type="button"
+          onClick={startEditing}
+          className="opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity text-muted-foreground hover:text-foreground mt-0.5"
+          aria-label="Edit"
+        >
+          <Edit3 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') setIsEditing(false)
+    if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      commit()
+    }
+  }
+
+  return (
+    <div className="flex items-start gap-1 mt-1">
+      {multiline ? (
+        <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={handleKeyDown} className="min-h-[80px] text-sm" autoFocus />
+      ) : (
+        <Input value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={handleKeyDown} className="h-8 text-sm" autoFocus />
+      )}
+      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={commit} disabled={!draft.trim()} aria-label="Save">
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setIsEditing(false)} aria-label="Cancel">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+interface EditableListProps {
+  items: string[]
+  onChange: (items: string[]) => void
+  /** Renders the read-only view so each card keeps its own list style. */
+  children: ReactNode
+  itemLabel?: string
+}
+
+export function EditableList({ items, onChange, children, itemLabel = 'item' }: EditableListProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState<string[]>(items)
+
+  const startEditing = () => {
+    setDraft(items)
+    setIsEditing(true)
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+    setDraft(next)
+  }
+
+  const cleaned = draft.map(item => item.trim()).filter(Boolean)
+
+  const commit = () => {
+    if (cleaned.length === 0) return
+    if (JSON.stringify(cleaned) !== JSON.stringify(items)) {
+      onChange(cleaned)
+    }
+    setIsEditing(false)
+  }
+
+  if (!isEditing) {
+    return (
+      <div className="group relative">
+        {children}
+        <button
+          type="button"
+          onClick={startEditing}
+          className="absolute -top-1 right-0 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+          aria-label={`Edit ${itemLabel}s`}
+        >
+          <Edit3 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2 mt-1">
+      {draft.map((item, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Input
+            value={item}
+            onChange={(e) => setDraft(draft.map((d, i) => i === index ? e.target.value : d))}
+            className="h-8 text-sm"
+          />
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => move(index, 1)} disabled={index === draft.length - 1} aria-label="Move down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setDraft(draft.filter((_, i) => i !== index))} aria-label={`Remove ${itemLabel}`}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button size="sm" variant="ghost" onClick={() => setDraft([...draft, ''])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add {itemLabel}
+        </Button>
+        <div className="flex gap-1">
+          <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={commit} disabled={cleaned.length === 0}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+import { useMemo, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Alert, AlertDescription } from './ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import {
+  BUILT_IN_TEMPLATES,
+  createExportTemplate,
+  getTemplateFormat,
+  isBuiltInTemplate,
+  renderExportTemplate,
+  TEMPLATE_FORMATS,
+  TEMPLATE_PLACEHOLDERS,
+  type ExportTemplate,
+  type TemplateFormat
+} from '../lib/export-templates'
+import { TemplateSyntaxError } from '../lib/template-engine'
+import { cn } from '../lib/utils'
+import { AlertCircle, Copy, Download, Lock, Plus, Trash2 } from 'lucide-react'
+
+interface ExportTemplatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The user's own templates; the built-in ones are listed before them. */
+  templates: ExportTemplate[]
+  onTemplatesChange: (templates: ExportTemplate[]) => void
+  /** What the preview is filled from, as built by `buildTemplateContext`. */
+  context: Record<string, unknown>
+  onExport: (template: ExportTemplate) => void
+}
+
+const NEW_TEMPLATE_BODY = `{{reportTitle}}
+
+{{#each personas}}
+{{title}}
+{{#each painPoints}}
+- {{this}}
+{{/each}}
+
+{{/each}}
+`
+
+function placeholderSnippet(name: string, list: boolean) {
+  return list ? `{{#each ${name}}}\n- {{this}}\n{{/each}}\n` : `{{${name}}}`
+}
+
+export function ExportTemplatesDialog({ open, onOpenChange, templates, onTemplatesChange, context, onExport }: ExportTemplatesDialogProps) {
+  const [selectedId, setSelectedId] = useState(BUILT_IN_TEMPLATES[0].id)
+  const [deleting, setDeleting] = useState<ExportTemplate | null>(null)
+  const bodyRef = useRef<HTMLTextAreaElement>(null)
+
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...templates]
+  const selected = allTemplates.find(template => template.id === selectedId) ?? BUILT_IN_TEMPLATES[0]
+  const readOnly = isBuiltInTemplate(selected)
+
+  const preview = useMemo(() => {
+    try {
+      return { ...renderExportTemplate(selected, context), error: null }
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) return { output: '', problems: [], error: error.message }
+      throw error
+    }
+  }, [selected, context])
+
+  const update = (changes: Partial<Pick<ExportTemplate, 'name' | 'format' | 'body'>>) => {
+    onTemplatesChange(templates.map(template => template.id === selected.id
+      ? { ...template, ...changes, updatedAt: new Date().toISOString() }
+      : template))
+  }
+
+  const addTemplate = (template: ExportTemplate) => {
+    onTemplatesChange([...templates, template])
+    setSelectedId(template.id)
+  }
+
+  const confirmDelete = () => {
+    if (!deleting) return
+    onTemplatesChange(templates.filter(template => template.id !== deleting.id))
+    if (deleting.id === selectedId) setSelectedId(BUILT_IN_TEMPLATES[0].id)
+    setDeleting(null)
+  }
+
+  // Inserts at the cursor, replacing any selection, and leaves the cursor after it
+  const insertPlaceholder = (name: string, list: boolean) => {
+    const textarea = bodyRef.current
+    if (!textarea || readOnly) return
+    const snippet = placeholderSnippet(name, list)
+    const { selectionStart, selectionEnd } = textarea
+    update({ body: selected.body.slice(0, selectionStart) + snippet + selected.body.slice(selectionEnd) })
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart + snippet.length, selectionStart + snippet.length)
+    })
+  }
+
+  const templateButton = (template: ExportTemplate) => (
+    <button
+      key={template.id}
+      type="button"
+      onClick={() => setSelectedId(template.id)}
+      className={cn(
+        'w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent',
+        template.id === selected.id && 'bg-accent font-medium'
+      )}
+    >
+      <span className="block truncate">{template.name || 'Untitled template'}</span>
+      <span className="text-xs text-muted-foreground">{getTemplateFormat(template.format).label}</span>
+    </button>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Export Templates</DialogTitle>
+          <DialogDescription>
+            Lay out your own export with placeholders and loops. The preview is filled from the current profile, and your templates are kept in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid h-[60vh] gap-4 md:grid-cols-[190px_1fr_1fr]">
+          <div className="flex min-h-0 flex-col gap-3">
+            <div className="flex-1 space-y-3 overflow-y-auto">
+              <div className="space-y-1">
+                <p className="px-3 text-xs font-medium uppercase text-muted-foreground">Built-in</p>
+                {BUILT_IN_TEMPLATES.map(templateButton)}
+              </div>
+              <div className="space-y-1">
+                <p className="px-3 text-xs font-medium uppercase text-muted-foreground">Your Templates</p>
+                {templates.length > 0 ? templates.map(templateButton) : (
+                  <p className="px-3 text-xs text-muted-foreground">None yet. Start a new one or duplicate a built-in template.</p>
+                )}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => addTemplate(createExportTemplate('New Template', 'text', NEW_TEMPLATE_BODY))}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+
+          <div className="flex min-h-0 flex-col gap-3">
+            <div className="flex gap-2">
+              <Input
+                aria-label="Template name"
+                value={selected.name}
+                disabled={readOnly}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+              <Select value={selected.format} disabled={readOnly} onValueChange={(format) => update({ format: format as TemplateFormat })}>
+                <SelectTrigger className="w-36" aria-label="Format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_FORMATS.map(format => (
+                    <SelectItem key={format.key} value={format.key}>{format.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {readOnly && (
+              <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <Lock className="h-3 w-3" />
+                Built-in templates can't be changed. Duplicate this one to make it your own.
+              </p>
+            )}
+            <Textarea
+              ref={bodyRef}
+              aria-label="Template"
+              value={selected.body}
+              readOnly={readOnly}
+              spellCheck={false}
+              onChange={(e) => update({ body: e.target.value })}
+              className="min-h-0 flex-1 resize-none font-mono text-xs md:text-xs"
+            />
+            <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border p-2">
+              {TEMPLATE_PLACEHOLDERS.map(group => (
+                <div key={group.title}>
+                  <p className="text-xs font-medium">
+                    {group.title} <span className="font-normal text-muted-foreground">{group.description}</span>
+                  </p>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {group.placeholders.map(({ name, list }) => (
+                      <Badge
+                        key={name}
+                        variant={list ? 'secondary' : 'outline'}
+                        className={cn('font-mono text-[11px]', !readOnly && 'cursor-pointer hover:bg-accent')}
+                        title={list ? `A list: inserts {{#each ${name}}}` : undefined}
+                        onClick={() => insertPlaceholder(name, list)}
+                      >
+                        {name}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex min-h-0 flex-col gap-2">
+            <Label>Preview</Label>
+            {preview.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{preview.error}</AlertDescription>
+              </Alert>
+            )}
+            {preview.problems.length > 0 && (
+              <ul className="max-h-24 space-y-0.5 overflow-y-auto text-xs text-amber-700">
+                {preview.problems.map(problem => (
+                  <li key={`${problem.line}-${problem.message}`}>Line {problem.line}: {problem.message}</li>
+                ))}
+              </ul>
+            )}
+            <pre className="min-h-0 flex-1 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-xs">
+              {preview.output}
+            </pre>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => addTemplate(createExportTemplate(`${selected.name} (copy)`, selected.format, selected.body))}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicate
+            </Button>
+            {!readOnly && (
+              <Button variant="outline" onClick={() => setDeleting(selected)}>
+                <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                Delete
+              </Button>
+            )}
+          </div>
+          <Button onClick={() => onExport(selected)} disabled={!!preview.error}>
+            <Download className="h-4 w-4 mr-2" />
+            Export with This Template
+          </Button>
+        </DialogFooter>
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This permanently removes the template from this browser. This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
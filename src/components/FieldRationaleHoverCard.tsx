@@ -0,0 +1,80 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { cn } from '../lib/utils'
+import { getFieldDefinition, type ProfileFieldPath } from '../lib/profile-fields'
+import { CONFIDENCE_LABELS, INPUT_LABELS } from '../lib/profile-rationale'
+import type { FieldRationale } from '../lib/profile-schema'
+import { Info, RefreshCw } from 'lucide-react'
+
+interface FieldRationaleHoverCardProps {
+  path: ProfileFieldPath
+  rationale?: FieldRationale
+  edited: boolean
+  isExplaining: boolean
+  onExplain: () => void
+}
+
+const CONFIDENCE_VARIANTS: Record<FieldRationale['confidence'], 'default' | 'secondary' | 'outline'> = {
+  high: 'default',
+  medium: 'secondary',
+  low: 'outline'
+}
+
+export function FieldRationaleHoverCard({ path, rationale, edited, isExplaining, onExplain }: FieldRationaleHoverCardProps) {
+  const label = getFieldDefinition(path).label
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <button
+          type="button"
+          className={cn('text-muted-foreground hover:text-foreground', !rationale && 'opacity-50')}
+          aria-label={`Why this ${label.toLowerCase()}?`}
+        >
+          <Info className="h-3 w-3" />
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-3 text-sm font-normal" align="start">
+        {rationale ? (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">Why this {label.toLowerCase()}?</span>
+              <Badge variant={CONFIDENCE_VARIANTS[rationale.confidence]} className="text-xs">
+                {CONFIDENCE_LABELS[rationale.confidence]}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">{rationale.rationale}</p>
+            {rationale.sources.length > 0 ? (
+              <ul className="space-y-1 text-xs">
+                {rationale.sources.map((source, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{INPUT_LABELS[source.input]}:</span>{' '}
+                    <span className="text-muted-foreground">“{source.quote}”</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nothing in your inputs points to this; treat it as an assumption to check.</p>
+            )}
+          </>
+        ) : isExplaining ? (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <RefreshCw className="h-3 w-3 animate-spin" />
+            Working out why...
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-muted-foreground">
+              {edited ? 'You edited this by hand, so there is no generated rationale.' : 'No rationale for this value yet.'}
+            </p>
+            <Button size="sm" variant="outline" onClick={onExplain}>
+              <Info className="h-4 w-4 mr-2" />
+              Explain missing fields
+            </Button>
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
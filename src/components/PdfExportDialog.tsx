@@ -0,0 +1,168 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  DEFAULT_EXPORT_BRANDING,
+  loadExportBranding,
+  saveExportBranding,
+  type ExportBranding
+} from '../lib/export-branding'
+import { rasterizeImage } from '../lib/raster-image'
+import { FileDown, ImagePlus, RefreshCw, Trash2 } from 'lucide-react'
+
+interface PdfExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Resolves to false when the PDF could not be made; the caller reports the error. */
+  onExport: (branding: ExportBranding) => Promise<boolean>
+}
+
+// Uploaded logos are stored with the branding, so they are shrunk first
+const LOGO_PIXELS = 600
+
+function readAsDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+const COLOR_FIELDS: { key: 'primaryColor' | 'accentColor', label: string, hint: string }[] = [
+  { key: 'primaryColor', label: 'Primary Color', hint: 'Cover, card titles and badges' },
+  { key: 'accentColor', label: 'Accent Color', hint: 'Highlights and dividers' }
+]
+
+export function PdfExportDialog({ open, onOpenChange, onExport }: PdfExportDialogProps) {
+  const [branding, setBranding] = useState<ExportBranding>(loadExportBranding)
+  const [isExporting, setIsExporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const update = (changes: Partial<ExportBranding>) => setBranding(prev => ({ ...prev, ...changes }))
+
+  const uploadLogo = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const { dataUrl } = await rasterizeImage(await readAsDataUrl(file), LOGO_PIXELS)
+      update({ logo: dataUrl })
+    } catch (error) {
+      console.error('Error reading logo:', error)
+      toast.error(`${file.name} could not be read as an image`)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!saveExportBranding(branding)) {
+      toast.error('Your branding could not be remembered for next time. Try a smaller logo.')
+    }
+    setIsExporting(true)
+    const exported = await onExport(branding)
+    setIsExporting(false)
+    if (exported) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export PDF</DialogTitle>
+          <DialogDescription>
+            A report with a cover page, your business information and every profile card. Your branding is remembered in this browser and also used for Word and PowerPoint exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="pdf-company">Company Name</Label>
+            <Input
+              id="pdf-company"
+              placeholder="Shown on the cover and in the footer"
+              value={branding.companyName}
+              onChange={(e) => update({ companyName: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-3">
+              {branding.logo && (
+                <img src={branding.logo} alt="Your logo" className="h-12 max-w-[160px] rounded border bg-white object-contain p-1" />
+              )}
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="h-4 w-4 mr-2" />
+                {branding.logo ? 'Replace' : 'Upload Logo'}
+              </Button>
+              {branding.logo && (
+                <Button variant="ghost" size="sm" onClick={() => update({ logo: undefined })}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </Button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/svg+xml,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  uploadLogo(e.target.files?.[0])
+                  e.target.value = ''
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {COLOR_FIELDS.map(({ key, label, hint }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`pdf-${key}`}>{label}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={`pdf-${key}`}
+                    type="color"
+                    value={branding[key]}
+                    onChange={(e) => update({ [key]: e.target.value })}
+                    className="h-9 w-14 cursor-pointer p-1"
+                  />
+                  <span className="text-xs text-muted-foreground">{hint}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => update({ primaryColor: DEFAULT_EXPORT_BRANDING.primaryColor, accentColor: DEFAULT_EXPORT_BRANDING.accentColor })}
+          >
+            Reset to default colors
+          </Button>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="pdf-page-numbers">Page numbers</Label>
+            <Switch
+              id="pdf-page-numbers"
+              checked={branding.pageNumbers}
+              onCheckedChange={(pageNumbers) => update({ pageNumbers })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileDown className="h-4 w-4 mr-2" />
+            )}
+            {isExporting ? 'Creating PDF...' : 'Download PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { PdfExportDialog } from './PdfExportDialog'
+import { ExportTemplatesDialog } from './ExportTemplatesDialog'
+import { loadExportBranding, type ExportBranding } from '../lib/export-branding'
+import {
+  BUILT_IN_TEMPLATES,
+  buildTemplateContext,
+  loadExportTemplates,
+  saveExportTemplates,
+  type ExportTemplate
+} from '../lib/export-templates'
+import { createProfileExport, createTemplateExport, downloadFile, type ProfileExportFormat } from '../lib/profile-exports'
+import { TemplateSyntaxError } from '../lib/template-engine'
+import type { AntiPersona, BusinessInfo, Persona } from '../types/profile'
+import { ChevronDown, Download, FileDown, FileJson, FileText, FileType, Hash, LayoutTemplate, Presentation } from 'lucide-react'
+
+interface ProfileExportMenuProps {
+  businessInfo: BusinessInfo
+  personas: Persona[]
+  antiPersona: AntiPersona | null
+}
+
+const FORMAT_NAMES: Record<ProfileExportFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word document',
+  pptx: 'slide deck',
+  markdown: 'Markdown file',
+  text: 'text file',
+  json: 'JSON file'
+}
+
+export function ProfileExportMenu({ businessInfo, personas, antiPersona }: ProfileExportMenuProps) {
+  const [showPdfExport, setShowPdfExport] = useState(false)
+  const [showExportTemplates, setShowExportTemplates] = useState(false)
+  const [exportTemplates, setExportTemplates] = useState<ExportTemplate[]>(loadExportTemplates)
+  // Set up in the PDF dialog and shared by every export
+  const [exportBranding, setExportBranding] = useState<ExportBranding>(loadExportBranding)
+
+  const templateContext = useMemo(() => personas.length > 0
+    ? buildTemplateContext(businessInfo, personas, antiPersona ?? undefined, exportBranding.companyName)
+    : {}, [businessInfo, personas, antiPersona, exportBranding.companyName])
+
+  const exportAs = async (format: ProfileExportFormat, branding = exportBranding) => {
+    if (personas.length === 0) return false
+    try {
+      downloadFile(await createProfileExport(format, businessInfo, personas, antiPersona ?? undefined, branding))
+      return true
+    } catch (error) {
+      console.error(`Error creating ${FORMAT_NAMES[format]}:`, error)
+      toast.error(`The ${FORMAT_NAMES[format]} could not be created`)
+      return false
+    }
+  }
+
+  const handleExportPDF = (branding: ExportBranding) => {
+    setExportBranding(branding)
+    return exportAs('pdf', branding)
+  }
+
+  const updateExportTemplates = (templates: ExportTemplate[]) => {
+    setExportTemplates(templates)
+    if (!saveExportTemplates(templates)) {
+      toast.error('Your templates could not be saved in this browser', { id: 'export-templates' })
+    }
+  }
+
+  const handleExportTemplate = (template: ExportTemplate) => {
+    if (personas.length === 0) return
+    try {
+      const { file, problems } = createTemplateExport(template, templateContext)
+      downloadFile(file)
+      if (problems.length > 0) {
+        toast(`Exported, but ${problems.length} placeholder${problems.length === 1 ? '' : 's'} could not be filled. Check the template's preview.`)
+      }
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        toast.error(`"${template.name}" could not be used. ${error.message}`)
+      } else {
+        console.error('Error exporting with template:', error)
+        toast.error('The export could not be created')
+      }
+    }
+  }
+
+  return (
+    <>
+      {/* Not modal, or the dialogs it opens would leave the page unclickable when closed */}
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+            <ChevronDown className="h-4 w-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setShowPdfExport(true)}>
+            <FileDown className="h-4 w-4 mr-2" />
+            PDF Report...
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportAs('docx')}>
+            <FileType className="h-4 w-4 mr-2" />
+            Word Document
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportAs('pptx')}>
+            <Presentation className="h-4 w-4 mr-2" />
+            PowerPoint Deck
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportAs('markdown')}>
+            <Hash className="h-4 w-4 mr-2" />
+            Markdown
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportAs('text')}>
+            <FileText className="h-4 w-4 mr-2" />
+            Plain Text
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              From Template
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {[...BUILT_IN_TEMPLATES, ...exportTemplates].map(template => (
+                <DropdownMenuItem key={template.id} onSelect={() => handleExportTemplate(template)}>
+                  {template.name || 'Untitled template'}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setShowExportTemplates(true)}>
+                Manage Templates...
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => exportAs('json')}>
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON (for importing)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <PdfExportDialog open={showPdfExport} onOpenChange={setShowPdfExport} onExport={handleExportPDF} />
+      <ExportTemplatesDialog
+        open={showExportTemplates}
+        onOpenChange={setShowExportTemplates}
+        templates={exportTemplates}
+        onTemplatesChange={updateExportTemplates}
+        context={templateContext}
+        onExport={handleExportTemplate}
+      />
+    </>
+  )
+}
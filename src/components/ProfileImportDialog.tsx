@@ -0,0 +1,243 @@
+import { useRef, useState, type DragEvent } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { cn } from '../lib/utils'
+import {
+  findDuplicateExport,
+  findImportConflict,
+  parseProfileExportFile,
+  savedProfileFromExport,
+  type ConflictResolution
+} from '../lib/profile-import'
+import { AlertCircle, FileJson, Upload } from 'lucide-react'
+import type { ProfileExport, SavedProfile } from '../types/profile'
+
+interface ImportCandidate {
+  key: string
+  fileName: string
+  exported?: ProfileExport
+  error?: string
+  conflict?: SavedProfile
+  /** The name of an earlier file in this import with the same profile; that file handles any conflict with the library. */
+  duplicateOf?: string
+  resolution: ConflictResolution
+}
+
+interface ProfileImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  savedProfiles: SavedProfile[]
+  onImport: (profiles: SavedProfile[]) => void
+}
+
+export function ProfileImportDialog({ open, onOpenChange, savedProfiles, onImport }: ProfileImportDialogProps) {
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const readFiles = async (files: FileList | null) => {
+    if (!files) return
+
+    const read = await Promise.all(Array.from(files).map(async (file) => {
+      const key = `${file.name}-${file.lastModified}-${file.size}`
+      try {
+        return { key, fileName: file.name, exported: parseProfileExportFile(await file.text()) }
+      } catch (error) {
+        return { key, fileName: file.name, error: error instanceof Error ? error.message : String(error) }
+      }
+    }))
+
+    // Dropping the same file twice replaces its earlier preview. Each file is
+    // checked against the library and against the files before it, so a
+    // second copy of a profile is skipped by default and never replaces one.
+    setCandidates(prev => read.reduce<ImportCandidate[]>((checked, { exported, ...file }) => {
+      if (!exported) return [...checked, { ...file, resolution: 'skip' }]
+      const duplicate = findDuplicateExport(exported, checked)
+      if (duplicate) return [...checked, { ...file, exported, duplicateOf: duplicate.fileName, resolution: 'skip' }]
+      const conflict = findImportConflict(exported, savedProfiles)
+      return [...checked, { ...file, exported, conflict, resolution: conflict ? 'skip' : 'keep-both' }]
+    }, prev.filter(c => !read.some(r => r.key === c.key))))
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    readFiles(e.dataTransfer.files)
+  }
+
+  const setResolution = (key: string, resolution: ConflictResolution) => {
+    setCandidates(prev => prev.map(c => c.key === key ? { ...c, resolution } : c))
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setCandidates([])
+    onOpenChange(next)
+  }
+
+  const toImport = candidates.filter(c => c.exported && c.resolution !== 'skip')
+
+  const handleImport = () => {
+    const profiles = toImport.map(candidate => {
+      const profile = savedProfileFromExport(candidate.exported!, candidate.fileName.replace(/\.json$/i, ''))
+      if (candidate.conflict && candidate.resolution === 'replace') {
+        return {
+          ...profile,
+          id: candidate.conflict.id,
+          profileName: candidate.conflict.profileName,
+          createdAt: candidate.conflict.createdAt,
+          updatedAt: new Date().toISOString()
+        }
+      }
+      return profile
+    })
+    onImport(profiles)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Profiles</DialogTitle>
+          <DialogDescription>
+            Import customer profiles exported as JSON. They'll be added to your saved library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            'border-2 border-dashed rounded-lg p-8 text-center transition-colors',
+            isDragging ? 'border-primary bg-primary/5' : 'border-muted'
+          )}
+        >
+          <Upload className="h-8 w-8 mx-auto text-muted-foreground mb-3" />
+          <p className="text-sm text-muted-foreground mb-3">Drag and drop JSON files here, or</p>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            Choose Files
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              readFiles(e.target.files)
+              e.target.value = ''
+            }}
+          />
+        </div>
+
+        {candidates.length > 0 && (
+          <ul className="space-y-3">
+            {candidates.map((candidate) => (
+              <li key={candidate.key} className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center gap-2">
+                  <FileJson className="h-4 w-4 text-primary shrink-0" />
+                  <span className="text-sm font-medium truncate">{candidate.fileName}</span>
+                </div>
+
+                {candidate.error && (
+                  <p className="text-sm text-destructive flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {candidate.error}
+                  </p>
+                )}
+
+                {candidate.exported && (
+                  <>
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {candidate.exported.businessInfo.businessDescription || candidate.exported.businessInfo.missionStatement}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary" className="text-xs">
+                        Generated {new Date(candidate.exported.generatedAt).toLocaleDateString()}
+                      </Badge>
+                      {'personas' in candidate.exported ? (
+                        candidate.exported.personas.map((persona, index) => (
+                          <Badge key={index} variant="outline" className="text-xs">
+                            {persona.segment?.name ?? `Persona ${index + 1}`}
+                          </Badge>
+                        ))
+                      ) : (
+                        <>
+                          {(candidate.exported.customerProfile.demographics
+                            ? [candidate.exported.customerProfile.demographics.ageRange, candidate.exported.customerProfile.demographics.location]
+                            : [candidate.exported.customerProfile.firmographics!.industry, candidate.exported.customerProfile.firmographics!.companySize]
+                          ).map((summary, index) => (
+                            <Badge key={index} variant="outline" className="text-xs">{summary}</Badge>
+                          ))}
+                          <Badge variant="outline" className="text-xs">
+                            {candidate.exported.customerProfile.painPoints.length} pain points
+                          </Badge>
+                        </>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                {candidate.duplicateOf && (
+                  <div className="flex items-center justify-between gap-4 pt-1">
+                    <p className="text-xs text-muted-foreground">
+                      Same profile as <span className="font-medium">{candidate.duplicateOf}</span>
+                    </p>
+                    <Select
+                      value={candidate.resolution}
+                      onValueChange={(value) => setResolution(candidate.key, value as ConflictResolution)}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip</SelectItem>
+                        <SelectItem value="keep-both">Keep both</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {candidate.conflict && (
+                  <div className="flex items-center justify-between gap-4 pt-1">
+                    <p className="text-xs text-muted-foreground">
+                      Already in your library as <span className="font-medium">{candidate.conflict.profileName}</span>
+                    </p>
+                    <Select
+                      value={candidate.resolution}
+                      onValueChange={(value) => setResolution(candidate.key, value as ConflictResolution)}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip</SelectItem>
+                        <SelectItem value="replace">Replace existing</SelectItem>
+                        <SelectItem value="keep-both">Keep both</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={toImport.length === 0}>
+            Import {toImport.length > 0 && `(${toImport.length})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,284 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Alert, AlertDescription, AlertTitle } from './ui/alert'
+import { ProfileImportDialog } from './ProfileImportDialog'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import { AlertTriangle, ArrowLeft, Cloud, CloudOff, Copy, Download, FolderOpen, Library, Pencil, RefreshCw, Trash2, Upload } from 'lucide-react'
+import type { SavedProfile } from '../types/profile'
+import { downloadFile } from '../lib/profile-exports'
+import type { FailedWrite, ProfileRepositoryStatus, QuarantinedProfile } from '../lib/profile-repository'
+
+interface ProfileLibraryProps {
+  profiles: SavedProfile[]
+  storageStatus: ProfileRepositoryStatus
+  quarantined: QuarantinedProfile[]
+  onDiscardQuarantined: (id: string) => void
+  failedWrites: FailedWrite[]
+  onRetryFailedWrites: () => void
+  onDiscardFailedWrite: (id: string) => void
+  onImport: (profiles: SavedProfile[]) => void
+  onOpen: (profile: SavedProfile) => void
+  onRename: (id: string, profileName: string) => void
+  onDuplicate: (profile: SavedProfile) => void
+  onDelete: (id: string) => void
+  onBack: () => void
+}
+
+export function ProfileLibrary({
+  profiles,
+  storageStatus,
+  quarantined,
+  onDiscardQuarantined,
+  failedWrites,
+  onRetryFailedWrites,
+  onDiscardFailedWrite,
+  onImport,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onBack
+}: ProfileLibraryProps) {
+  const [renaming, setRenaming] = useState<SavedProfile | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [deleting, setDeleting] = useState<SavedProfile | null>(null)
+  const [showImport, setShowImport] = useState(false)
+
+  // Newest first so the profile just saved is always at the top
+  const sortedProfiles = [...profiles].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  const startRename = (profile: SavedProfile) => {
+    setRenaming(profile)
+    setRenameValue(profile.profileName)
+  }
+
+  const confirmRename = () => {
+    if (!renaming || !renameValue.trim()) return
+    onRename(renaming.id, renameValue.trim())
+    setRenaming(null)
+  }
+
+  // Lets the user keep a copy of a record we couldn't read before discarding it
+  const downloadQuarantined = (entry: QuarantinedProfile) => {
+    downloadFile({
+      content: JSON.stringify(entry.raw, null, 2),
+      mimeType: 'application/json',
+      filename: `quarantined-profile-${entry.id}.json`
+    })
+  }
+
+  const describeFailedWrite = ({ write }: FailedWrite) => write.type === 'save'
+    ? `Saving "${write.profile.profileName}"`
+    : `Deleting ${profiles.find(p => p.id === write.id)?.profileName ?? `profile ${write.id}`}`
+
+  const confirmDelete = () => {
+    if (!deleting) return
+    onDelete(deleting.id)
+    setDeleting(null)
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Library className="h-5 w-5 text-primary" />
+              Saved Profiles
+              {storageStatus.mode === 'cloud' ? (
+                <Badge variant="secondary" className="text-xs font-normal">
+                  <Cloud className="h-3 w-3 mr-1" />
+                  {storageStatus.pendingWrites > 0 ? `${storageStatus.pendingWrites} waiting to sync` : 'Synced'}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-xs font-normal">
+                  <CloudOff className="h-3 w-3 mr-1" />
+                  This device only
+                </Badge>
+              )}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowImport(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={onBack}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Generator
+              </Button>
+            </div>
+          </CardTitle>
+          <CardDescription>
+            {profiles.length === 0
+              ? 'You have not saved any profiles yet. Generate one and click "Save Profile", or import a JSON export.'
+              : `${profiles.length} saved ${profiles.length === 1 ? 'profile' : 'profiles'}`}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {quarantined.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {quarantined.length} saved {quarantined.length === 1 ? 'profile' : 'profiles'} could not be loaded
+          </AlertTitle>
+          <AlertDescription>
+            <p>These records were saved in a format this version can't read, so they've been set aside.</p>
+            <ul className="mt-3 space-y-2">
+              {quarantined.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.profileName || entry.id}</p>
+                    <p className="text-xs text-muted-foreground">{entry.reason}</p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => downloadQuarantined(entry)} aria-label="Download raw record">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => onDiscardQuarantined(entry.id)} aria-label="Discard record">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {failedWrites.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {failedWrites.length} {failedWrites.length === 1 ? 'change' : 'changes'} could not be synced
+          </AlertTitle>
+          <AlertDescription>
+            <p>The cloud library kept rejecting these, so they are only stored on this device.</p>
+            <ul className="mt-3 space-y-2">
+              {failedWrites.map((failed) => (
+                <li key={failed.id} className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{describeFailedWrite(failed)}</p>
+                    <p className="text-xs">{failed.reason}</p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => onDiscardFailedWrite(failed.id)} aria-label="Discard change">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <Button size="sm" variant="outline" className="mt-3" onClick={onRetryFailedWrites}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4">
+        {sortedProfiles.map((profile) => (
+          <Card key={profile.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <CardTitle className="text-lg truncate">{profile.profileName}</CardTitle>
+                  <CardDescription className="flex items-center gap-2">
+                    Created {new Date(profile.createdAt).toLocaleDateString()}
+                    {profile.personas.length > 1 && (
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {profile.personas.length} personas
+                      </Badge>
+                    )}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" onClick={() => onOpen(profile)}>
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Open
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => startRename(profile)} aria-label="Rename profile">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => onDuplicate(profile)} aria-label="Duplicate profile">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setDeleting(profile)} aria-label="Delete profile">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <p className="text-sm text-muted-foreground line-clamp-2">
+                {profile.businessDescription || profile.missionStatement}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Profile</DialogTitle>
+            <DialogDescription>Give this profile a name you'll recognise later.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Profile Name</Label>
+            <Input
+              id="profile-name"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && confirmRename()}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmRename} disabled={!renameValue.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ProfileImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        savedProfiles={profiles}
+        onImport={onImport}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.profileName}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the saved profile. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
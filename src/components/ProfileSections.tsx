@@ -0,0 +1,383 @@
+import type { ReactNode } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Separator } from './ui/separator'
+import { EditableList, EditableText } from './EditableField'
+import { FieldRationaleHoverCard } from './FieldRationaleHoverCard'
+import { cn } from '../lib/utils'
+import {
+  getFieldDefinition,
+  getSectionTitle,
+  type ProfileFieldPath,
+  type ProfileFieldValue,
+  type ProfileSectionKey
+} from '../lib/profile-fields'
+import { isLocked, type FieldLocks } from '../lib/profile-locks'
+import { getProfileMode, getProfileModeLabel, splitCommitteeMember } from '../lib/profile-mode'
+import { createPersonaAvatar, toSvgDataUri } from '../lib/persona-avatar'
+import { BookOpen, Lock, RefreshCw, Unlock } from 'lucide-react'
+import type { CustomerProfile, PersonaSegment, ProfileRationales } from '../types/profile'
+
+interface ProfileSectionsProps {
+  profile: CustomerProfile
+  /** Set for personas in a set; shown in the hero card. */
+  segment?: PersonaSegment
+  editedFields: ProfileFieldPath[]
+  onFieldChange: (path: ProfileFieldPath, value: ProfileFieldValue) => void
+  locks: FieldLocks
+  onToggleLock: (path: ProfileFieldPath, value: string, item?: string) => void
+  regeneratingSection: ProfileSectionKey | null
+  onRegenerateSection: (section: ProfileSectionKey) => void
+  rationales: ProfileRationales
+  isExplaining: boolean
+  /** Explains every field that has no rationale yet. */
+  onExplain: () => void
+}
+
+export function ProfileSections({
+  profile,
+  segment,
+  editedFields,
+  onFieldChange,
+  locks,
+  onToggleLock,
+  regeneratingSection,
+  onRegenerateSection,
+  rationales,
+  isExplaining,
+  onExplain
+}: ProfileSectionsProps) {
+  const rationaleCard = (path: ProfileFieldPath) => (
+    <FieldRationaleHoverCard
+      path={path}
+      rationale={rationales[path]}
+      edited={editedFields.includes(path)}
+      isExplaining={isExplaining}
+      onExplain={onExplain}
+    />
+  )
+
+  const editedMarker = (path: ProfileFieldPath) => editedFields.includes(path) && (
+    <span className="text-[10px] uppercase tracking-wide text-primary font-normal">edited</span>
+  )
+
+  const fieldLabel = (path: ProfileFieldPath, lockValue?: string) => (
+    <Label className="text-sm font-medium flex items-center gap-2">
+      {getFieldDefinition(path).label}
+      {rationaleCard(path)}
+      {editedMarker(path)}
+      {lockValue !== undefined && lockButton(path, lockValue)}
+    </Label>
+  )
+
+  const lockButton = (path: ProfileFieldPath, value: string, item?: string) => {
+    const locked = isLocked(locks, path, item)
+    return (
+      <button
+        type="button"
+        onClick={() => onToggleLock(path, value, item)}
+        className={cn(
+          'transition-opacity',
+          locked ? 'text-primary' : 'text-muted-foreground opacity-0 group-hover/lock:opacity-100 focus:opacity-100'
+        )}
+        aria-label={locked ? 'Unlock' : 'Lock'}
+        title={locked ? 'Locked: kept when regenerating. Click to unlock.' : 'Lock this value so regeneration keeps it'}
+      >
+        {locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+      </button>
+    )
+  }
+
+  const textField = (path: ProfileFieldPath, value: string, className?: string) => (
+    <div className="group/lock">
+      {fieldLabel(path, value)}
+      <EditableText value={value} onChange={(next) => onFieldChange(path, next)} multiline={value.length > 60} className={className} />
+    </div>
+  )
+
+  const listField = (path: ProfileFieldPath, items: string[], itemLabel: string, view: ReactNode) => (
+    <EditableList items={items} onChange={(next) => onFieldChange(path, next)} itemLabel={itemLabel}>
+      {view}
+    </EditableList>
+  )
+
+  // List-only cards have no field label, so the rationale and edited marker go on the title
+  const sectionTitle = (section: ProfileSectionKey, path?: ProfileFieldPath) => (
+    <CardTitle className="text-lg flex items-center justify-between gap-2">
+      <span className="flex items-center gap-2">
+        {getSectionTitle(section)}
+        {path && rationaleCard(path)}
+        {path && editedMarker(path)}
+      </span>
+      {regenerateButton(section)}
+    </CardTitle>
+  )
+
+  const regenerateButton = (section: ProfileSectionKey) => (
+    <Button
+      size="sm"
+      variant="ghost"
+      className="h-8 w-8 p-0"
+      onClick={() => onRegenerateSection(section)}
+      disabled={regeneratingSection !== null}
+      aria-label={`Regenerate ${getSectionTitle(section)}`}
+      title={`Regenerate ${getSectionTitle(section)}`}
+    >
+      <RefreshCw className={cn('h-4 w-4', regeneratingSection === section && 'animate-spin')} />
+    </Button>
+  )
+
+  const bulletList = (path: ProfileFieldPath, items: string[], bulletClassName: string) => (
+    <ul className="space-y-2 pr-6">
+      {items.map((item, index) => (
+        <li key={index} className="group/lock text-sm text-muted-foreground flex items-start gap-2">
+          <span className={`${bulletClassName} mt-1`}>•</span>
+          <span className="flex-1">{item}</span>
+          <span className="mt-1">{lockButton(path, item, item)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+
+  const badgeList = (
+    path: ProfileFieldPath,
+    items: string[],
+    variant: 'default' | 'secondary' | 'outline',
+    className = 'flex flex-wrap gap-1 mt-1 pr-6'
+  ) => (
+    <div className={className}>
+      {items.map((item, index) => (
+        <Badge key={index} variant={variant} className="group/lock text-xs gap-1">
+          {item}
+          {lockButton(path, item, item)}
+        </Badge>
+      ))}
+    </div>
+  )
+
+  const memberList = (path: ProfileFieldPath, items: string[]) => (
+    <ul className="space-y-2 mt-1 pr-6">
+      {items.map((item, index) => {
+        const { role, concerns } = splitCommitteeMember(item)
+        return (
+          <li key={index} className="group/lock text-sm flex items-start gap-2">
+            <span className="flex-1">
+              <span className="font-medium">{role}</span>
+              {concerns && <span className="text-muted-foreground"> - {concerns}</span>}
+            </span>
+            <span className="mt-1">{lockButton(path, item, item)}</span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+
+  // The name and quote are the card's heading, so their markers sit beside the text instead of a label
+  const inlineField = (path: ProfileFieldPath, value: string, className: string) => (
+    <div className="group/lock flex items-start gap-2">
+      <EditableText value={value} onChange={(next) => onFieldChange(path, next)} className={className} />
+      <span className="flex items-center gap-2 mt-1.5">
+        {rationaleCard(path)}
+        {editedMarker(path)}
+        {lockButton(path, value)}
+      </span>
+    </div>
+  )
+
+  const { narrative } = profile
+
+  return (
+    <>
+      {/* Persona Story */}
+      <Card className="bg-gradient-to-br from-primary/5 to-accent/5">
+        <CardHeader className="pb-4">
+          <div className="flex flex-col sm:flex-row gap-6">
+            <img
+              src={toSvgDataUri(createPersonaAvatar(profile))}
+              alt={narrative ? `Illustrated avatar of ${narrative.name}` : 'Illustrated avatar'}
+              className="h-28 w-28 shrink-0 rounded-full border bg-background"
+            />
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                {narrative
+                  ? inlineField('narrative.name', narrative.name, 'text-2xl font-semibold')
+                  : <CardTitle className="text-2xl">Your Customer</CardTitle>}
+                {narrative && regenerateButton('narrative')}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {segment && <Badge variant="secondary">{segment.label}</Badge>}
+                <Badge variant="outline">{getProfileModeLabel(getProfileMode(profile))}</Badge>
+              </div>
+              {narrative && inlineField('narrative.quote', narrative.quote, "text-lg italic text-muted-foreground before:content-['“'] after:content-['”']")}
+              {segment && <CardDescription>{segment.differentiator}</CardDescription>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {narrative ? (
+            textField('narrative.dayInTheLife', narrative.dayInTheLife, 'text-sm text-muted-foreground mt-1 leading-relaxed')
+          ) : (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-dashed bg-background px-4 py-3 text-sm">
+              <span className="text-muted-foreground">This profile was created before persona stories. Write one from the attributes below.</span>
+              <Button size="sm" variant="outline" onClick={() => onRegenerateSection('narrative')} disabled={regeneratingSection !== null}>
+                {regeneratingSection === 'narrative' ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <BookOpen className="h-4 w-4 mr-2" />
+                )}
+                Write Their Story
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Demographics */}
+        {profile.demographics && (
+          <Card>
+            <CardHeader>
+              {sectionTitle('demographics')}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {textField('demographics.ageRange', profile.demographics.ageRange)}
+              {textField('demographics.gender', profile.demographics.gender)}
+              {textField('demographics.location', profile.demographics.location)}
+              {textField('demographics.income', profile.demographics.income)}
+              {textField('demographics.education', profile.demographics.education)}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Firmographics */}
+        {profile.firmographics && (
+          <Card>
+            <CardHeader>
+              {sectionTitle('firmographics')}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {textField('firmographics.companySize', profile.firmographics.companySize)}
+              {textField('firmographics.industry', profile.firmographics.industry)}
+              {textField('firmographics.revenueBand', profile.firmographics.revenueBand)}
+              <div>
+                {fieldLabel('firmographics.techStack')}
+                {listField('firmographics.techStack', profile.firmographics.techStack, 'tool',
+                  badgeList('firmographics.techStack', profile.firmographics.techStack, 'outline'))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Psychographics */}
+        <Card>
+          <CardHeader>
+            {sectionTitle('psychographics')}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              {fieldLabel('psychographics.values')}
+              {listField('psychographics.values', profile.psychographics.values, 'value',
+                badgeList('psychographics.values', profile.psychographics.values, 'secondary'))}
+            </div>
+            <div>
+              {fieldLabel('psychographics.interests')}
+              {listField('psychographics.interests', profile.psychographics.interests, 'interest',
+                badgeList('psychographics.interests', profile.psychographics.interests, 'outline'))}
+            </div>
+            {textField('psychographics.lifestyle', profile.psychographics.lifestyle)}
+            {textField('psychographics.personality', profile.psychographics.personality)}
+          </CardContent>
+        </Card>
+
+        {/* Pain Points */}
+        <Card>
+          <CardHeader>
+            {sectionTitle('painPoints', 'painPoints')}
+          </CardHeader>
+          <CardContent>
+            {listField('painPoints', profile.painPoints, 'pain point', bulletList('painPoints', profile.painPoints, 'text-destructive'))}
+          </CardContent>
+        </Card>
+
+        {/* Motivations */}
+        <Card>
+          <CardHeader>
+            {sectionTitle('motivations', 'motivations')}
+          </CardHeader>
+          <CardContent>
+            {listField('motivations', profile.motivations, 'motivation', bulletList('motivations', profile.motivations, 'text-primary'))}
+          </CardContent>
+        </Card>
+
+        {/* Goals */}
+        <Card>
+          <CardHeader>
+            {sectionTitle('goals', 'goals')}
+          </CardHeader>
+          <CardContent>
+            {listField('goals', profile.goals, 'goal', bulletList('goals', profile.goals, 'text-accent'))}
+          </CardContent>
+        </Card>
+
+        {/* Communication Channels */}
+        <Card>
+          <CardHeader>
+            {sectionTitle('communicationChannels', 'communicationChannels')}
+          </CardHeader>
+          <CardContent>
+            {listField('communicationChannels', profile.communicationChannels, 'channel',
+              badgeList('communicationChannels', profile.communicationChannels, 'default', 'flex flex-wrap gap-2 pr-6'))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Buying Committee */}
+      {profile.buyingCommittee && (
+        <Card>
+          <CardHeader>
+            {sectionTitle('buyingCommittee')}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              {fieldLabel('buyingCommittee.decisionMakers')}
+              {listField('buyingCommittee.decisionMakers', profile.buyingCommittee.decisionMakers, 'decision maker',
+                badgeList('buyingCommittee.decisionMakers', profile.buyingCommittee.decisionMakers, 'default', 'flex flex-wrap gap-2 mt-2 pr-6'))}
+            </div>
+            <div>
+              {fieldLabel('buyingCommittee.members')}
+              {listField('buyingCommittee.members', profile.buyingCommittee.members, 'member',
+                memberList('buyingCommittee.members', profile.buyingCommittee.members))}
+            </div>
+
+            <Separator />
+
+            {textField('buyingCommittee.salesCycle', profile.buyingCommittee.salesCycle, 'text-sm text-muted-foreground mt-1')}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Buying Behavior */}
+      <Card>
+        <CardHeader>
+          {sectionTitle('buyingBehavior')}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            {fieldLabel('buyingBehavior.decisionFactors')}
+            {listField('buyingBehavior.decisionFactors', profile.buyingBehavior.decisionFactors, 'factor',
+              badgeList('buyingBehavior.decisionFactors', profile.buyingBehavior.decisionFactors, 'secondary', 'flex flex-wrap gap-2 mt-2 pr-6'))}
+          </div>
+
+          <Separator />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            {textField('buyingBehavior.purchaseProcess', profile.buyingBehavior.purchaseProcess, 'text-sm text-muted-foreground mt-1')}
+            {textField('buyingBehavior.budget', profile.buyingBehavior.budget, 'text-sm text-muted-foreground mt-1')}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
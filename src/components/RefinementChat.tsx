@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { ScrollArea } from './ui/scroll-area'
+import { cn } from '../lib/utils'
+import { diffProfilePatch, type FieldDiff } from '../lib/profile-refinement'
+import { Check, MessageSquare, RefreshCw, Send, X } from 'lucide-react'
+import type { CustomerProfile, RefinementMessage } from '../types/profile'
+
+interface RefinementChatProps {
+  profile: CustomerProfile
+  messages: RefinementMessage[]
+  isSending: boolean
+  onSend: (instruction: string) => void
+  onAccept: (messageId: string) => void
+  onReject: (messageId: string) => void
+  onClose: () => void
+}
+
+const SUGGESTIONS = [
+  'Make this persona more budget-conscious',
+  'Focus on European customers',
+  'Make them more senior in their career'
+]
+
+function DiffView({ diff }: { diff: FieldDiff }) {
+  if (!Array.isArray(diff.before) || !Array.isArray(diff.after)) {
+    return (
+      <div className="space-y-1">
+        <p className="text-xs font-medium">{diff.label}</p>
+        <p className="text-xs text-destructive line-through">{String(diff.before)}</p>
+        <p className="text-xs text-green-700 dark:text-green-400">{String(diff.after)}</p>
+      </div>
+    )
+  }
+
+  const after = diff.after
+  const before = diff.before
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{diff.label}</p>
+      <ul className="space-y-0.5">
+        {before.filter(item => !after.includes(item)).map((item, index) => (
+          <li key={`-${index}-${item}`} className="text-xs text-destructive line-through">− {item}</li>
+        ))}
+        {after.map((item, index) => (
+          <li
+            key={`+${index}-${item}`}
+            className={cn('text-xs', before.includes(item) ? 'text-muted-foreground' : 'text-green-700 dark:text-green-400')}
+          >
+            {before.includes(item) ? '  ' : '+ '}{item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function RefinementChat({ profile, messages, isSending, onSend, onAccept, onReject, onClose }: RefinementChatProps) {
+  const [instruction, setInstruction] = useState('')
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages.length, isSending])
+
+  const send = (text: string) => {
+    if (!text.trim() || isSending) return
+    onSend(text.trim())
+    setInstruction('')
+  }
+
+  return (
+    <Card className="flex flex-col h-[calc(100vh-4rem)] lg:sticky lg:top-8">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-primary" />
+            Refine Profile
+          </span>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose} aria-label="Close chat">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription>Describe a change and review it before it's applied.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="flex-1 flex flex-col gap-3 min-h-0">
+        <ScrollArea className="flex-1 pr-3">
+          <div className="space-y-3">
+            {messages.length === 0 && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Try something like:</p>
+                {SUGGESTIONS.map((suggestion) => (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    onClick={() => send(suggestion)}
+                    className="block w-full text-left text-sm rounded-md border px-3 py-2 hover:bg-accent/50 transition-colors"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {messages.map((message) => {
+              const diffs = message.patch ? diffProfilePatch(profile, message.patch) : []
+              return (
+                <div key={message.id} className={cn('flex', message.role === 'user' ? 'justify-end' : 'justify-start')}>
+                  <div
+                    className={cn(
+                      'rounded-lg px-3 py-2 max-w-[90%] space-y-2',
+                      message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                    )}
+                  >
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+
+                    {message.status === 'pending' && (
+                      <>
+                        {/* Edits made since can leave nothing to change, but the proposal still needs closing */}
+                        {diffs.length > 0 ? (
+                          <div className="space-y-2 rounded-md bg-background p-2">
+                            {diffs.map((diff) => <DiffView key={diff.path} diff={diff} />)}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">The profile already has these changes.</p>
+                        )}
+                        <div className="flex gap-2">
+                          {diffs.length > 0 && (
+                            <Button size="sm" onClick={() => onAccept(message.id)}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" onClick={() => onReject(message.id)}>
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </>
+                    )}
+
+                    {message.status === 'accepted' && (
+                      <Badge variant="secondary" className="text-xs">Applied</Badge>
+                    )}
+                    {message.status === 'rejected' && (
+                      <Badge variant="outline" className="text-xs">Rejected</Badge>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+
+            {isSending && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                Thinking...
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2">
+          <Textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                send(instruction)
+              }
+            }}
+            placeholder="e.g. Focus on European customers"
+            className="min-h-[60px] text-sm"
+          />
+          <Button onClick={() => send(instruction)} disabled={!instruction.trim() || isSending} aria-label="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
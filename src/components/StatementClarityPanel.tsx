@@ -0,0 +1,138 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Progress } from './ui/progress'
+import { cn } from '../lib/utils'
+import {
+  averageScore,
+  CLARITY_DIMENSIONS,
+  hasRewritePlaceholders,
+  splitByPhrases,
+  STATEMENTS,
+  type ClarityReport,
+  type StatementInput,
+  type StatementKey
+} from '../lib/statement-analysis'
+import { Check, RefreshCw, Wand2, X } from 'lucide-react'
+
+interface StatementClarityPanelProps {
+  report: ClarityReport
+  /** The statements as they were when the check ran. */
+  analyzed: StatementInput
+  /** The statements as they are now. */
+  current: StatementInput
+  isAnalyzing: boolean
+  onUseRewrite: (key: StatementKey, rewrite: string) => void
+  onRecheck: () => void
+  onClose: () => void
+}
+
+export function StatementClarityPanel({ report, analyzed, current, isAnalyzing, onUseRewrite, onRecheck, onClose }: StatementClarityPanelProps) {
+  return (
+    <Card className="border-primary/30 bg-primary/5">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            Clarity Check
+          </span>
+          <span className="flex items-center gap-1">
+            <Button size="sm" variant="ghost" onClick={onRecheck} disabled={isAnalyzing}>
+              <RefreshCw className={cn('h-4 w-4 mr-2', isAnalyzing && 'animate-spin')} />
+              Check again
+            </Button>
+            <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose} aria-label="Close clarity check">
+              <X className="h-4 w-4" />
+            </Button>
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Sharper statements lead to sharper customer profiles. Use a suggested rewrite as it is, or as a starting point for your own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {STATEMENTS.map(({ key, title }) => {
+          const analysis = report[key]
+          const applied = current[key] === analysis.rewrite
+          const edited = !applied && current[key] !== analyzed[key]
+          const unchanged = analysis.rewrite.trim() === analyzed[key].trim()
+          const needsFilling = hasRewritePlaceholders(analysis.rewrite)
+
+          return (
+            <div key={key} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold">{title}</h4>
+                <Badge variant="outline">{averageScore(analysis)}/10</Badge>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                {CLARITY_DIMENSIONS.map((dimension) => (
+                  <div key={dimension.key} className="space-y-1">
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{dimension.label}</span>
+                      <span>{analysis.scores[dimension.key]}/10</span>
+                    </div>
+                    <Progress value={analysis.scores[dimension.key] * 10} className="h-1.5" />
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm rounded-md border bg-background p-3">
+                {splitByPhrases(analyzed[key], analysis.vaguePhrases).map((part, index) => part.vague ? (
+                  <mark key={index} title={part.vague.reason} className="rounded bg-amber-100 px-0.5 text-foreground dark:bg-amber-900/50">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                ))}
+              </p>
+
+              {analysis.vaguePhrases.length > 0 && (
+                <ul className="space-y-1">
+                  {analysis.vaguePhrases.map((vague, index) => (
+                    <li key={`${index}-${vague.phrase}`} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">"{vague.phrase}"</span> - {vague.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {unchanged ? (
+                <p className="text-xs text-muted-foreground">
+                  {analysis.vaguePhrases.length === 0
+                    ? 'No rewrite needed; this statement is already clear.'
+                    : 'No automatic rewrite is available; reword the highlighted phrases yourself.'}
+                </p>
+              ) : (
+                <div className="rounded-md border border-dashed bg-background p-3 space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">Suggested rewrite</p>
+                  <p className="text-sm">{analysis.rewrite}</p>
+                  {needsFilling ? (
+                    <p className="text-xs text-muted-foreground">
+                      Replace the parts in [brackets] with your own details when you edit the statement above.
+                    </p>
+                  ) : applied ? (
+                    <Badge variant="secondary" className="text-xs">
+                      <Check className="h-3 w-3 mr-1" />
+                      Using this rewrite
+                    </Badge>
+                  ) : (
+                    <div className="flex items-center gap-3">
+                      <Button size="sm" variant="outline" onClick={() => onUseRewrite(key, analysis.rewrite)}>
+                        <Check className="h-4 w-4 mr-2" />
+                        Use this rewrite
+                      </Button>
+                      {edited && (
+                        <span className="text-xs text-muted-foreground">You've edited this statement since the check.</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
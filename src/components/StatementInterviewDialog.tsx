@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { badgeVariants } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { cn } from '../lib/utils'
+import {
+  EMPTY_INTERVIEW_ANSWERS,
+  hasRequiredAnswers,
+  INTERVIEW_QUESTIONS,
+  type InterviewAnswers,
+  type StatementDraft,
+  type StatementDrafts
+} from '../lib/statement-drafting'
+import type { StatementInput } from '../lib/statement-analysis'
+import { ArrowLeft, Check, RefreshCw, Wand2 } from 'lucide-react'
+
+interface StatementInterviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Whether the step-1 fields already hold statements that using the drafts would replace. */
+  hasStatements: boolean
+  /** Resolves to null when drafting failed; the caller reports the error. */
+  onDraft: (answers: InterviewAnswers) => Promise<StatementDrafts | null>
+  onUse: (statements: StatementInput) => void
+}
+
+interface CandidatePickerProps {
+  id: string
+  title: string
+  candidates: StatementDraft[]
+  value: string
+  onChange: (value: string) => void
+}
+
+function CandidatePicker({ id, title, candidates, value, onChange }: CandidatePickerProps) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {candidates.map((candidate) => (
+        <button
+          key={candidate.text}
+          type="button"
+          onClick={() => onChange(candidate.text)}
+          className={cn(
+            'block w-full text-left rounded-md border px-3 py-2 transition-colors',
+            value === candidate.text ? 'border-primary bg-primary/5' : 'hover:bg-accent/50'
+          )}
+        >
+          {/* Spans only: a button may not contain block elements */}
+          <span className={cn(badgeVariants({ variant: 'secondary' }), 'text-xs mb-1')}>{candidate.angle}</span>
+          <span className="block text-sm">{candidate.text}</span>
+        </button>
+      ))}
+      <Label htmlFor={id} className="text-xs text-muted-foreground">Edit before using</Label>
+      <Textarea id={id} value={value} onChange={(e) => onChange(e.target.value)} className="min-h-[70px] text-sm" />
+    </div>
+  )
+}
+
+export function StatementInterviewDialog({ open, onOpenChange, hasStatements, onDraft, onUse }: StatementInterviewDialogProps) {
+  // Answers live here rather than in the dialog content, so an accidental close loses nothing
+  const [answers, setAnswers] = useState<InterviewAnswers>(EMPTY_INTERVIEW_ANSWERS)
+  const [drafts, setDrafts] = useState<StatementDrafts | null>(null)
+  const [vision, setVision] = useState('')
+  const [mission, setMission] = useState('')
+  const [isDrafting, setIsDrafting] = useState(false)
+
+  const draft = async () => {
+    setIsDrafting(true)
+    const result = await onDraft(answers)
+    setIsDrafting(false)
+    if (!result) return
+    setDrafts(result)
+    setVision(result.visions[0].text)
+    setMission(result.missions[0].text)
+  }
+
+  const use = () => {
+    onUse({ visionStatement: vision.trim(), missionStatement: mission.trim() })
+    setDrafts(null)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Draft Your Vision & Mission</DialogTitle>
+          <DialogDescription>
+            {drafts
+              ? `Pick the candidates that sound most like you and adjust the wording.${hasStatements ? ' They replace what is in the vision and mission fields now.' : ''}`
+              : 'Answer a few short questions and we will draft statements for you to choose from. Only the first three are required.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {drafts ? (
+          <div className="space-y-6">
+            <CandidatePicker id="draft-vision" title="Vision" candidates={drafts.visions} value={vision} onChange={setVision} />
+            <CandidatePicker id="draft-mission" title="Mission" candidates={drafts.missions} value={mission} onChange={setMission} />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {INTERVIEW_QUESTIONS.map((question) => (
+              <div key={question.key} className="space-y-2">
+                <Label htmlFor={`interview-${question.key}`}>
+                  {question.question}
+                  {!question.required && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                </Label>
+                <Input
+                  id={`interview-${question.key}`}
+                  placeholder={question.placeholder}
+                  value={answers[question.key]}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [question.key]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {drafts ? (
+            <>
+              <Button variant="ghost" onClick={() => setDrafts(null)} disabled={isDrafting}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Questions
+              </Button>
+              <Button variant="outline" onClick={draft} disabled={isDrafting}>
+                <RefreshCw className={cn('h-4 w-4 mr-2', isDrafting && 'animate-spin')} />
+                Draft Again
+              </Button>
+              <Button onClick={use} disabled={!vision.trim() || !mission.trim() || isDrafting}>
+                <Check className="h-4 w-4 mr-2" />
+                Use These Statements
+              </Button>
+            </>
+          ) : (
+            <Button onClick={draft} disabled={!hasRequiredAnswers(answers) || isDrafting}>
+              {isDrafting ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Wand2 className="h-4 w-4 mr-2" />
+              )}
+              {isDrafting ? 'Drafting...' : 'Draft Statements'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
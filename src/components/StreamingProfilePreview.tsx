@@ -0,0 +1,126 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Skeleton } from './ui/skeleton'
+import {
+  getModeFields,
+  getModeSections,
+  getProfileField,
+  getSectionOfField,
+  WIDE_SECTIONS,
+  type ProfileSectionDefinition
+} from '../lib/profile-fields'
+import type { ProfileMode } from '../lib/profile-mode'
+import type { PartialCustomerProfile } from '../lib/profile-streaming'
+import { AlertCircle, RefreshCw, Sparkles, Trash2, X } from 'lucide-react'
+import type { CustomerProfile } from '../types/profile'
+
+interface StreamingProfilePreviewProps {
+  profile: PartialCustomerProfile
+  mode: ProfileMode
+  caption: string | null
+  isStreaming: boolean
+  onResume: () => void
+  onCancel: () => void
+  onDiscard: () => void
+}
+
+export function StreamingProfilePreview({ profile, mode, caption, isStreaming, onResume, onCancel, onDiscard }: StreamingProfilePreviewProps) {
+  const sections = getModeSections(mode)
+  const finishedCount = sections.filter(section => profile[section.key] !== undefined).length
+
+  const sectionCard = (section: ProfileSectionDefinition) => {
+    const started = profile[section.key] !== undefined
+    const fields = getModeFields(mode).filter(field => getSectionOfField(field.path) === section.key)
+
+    return (
+      <Card key={section.key}>
+        <CardHeader>
+          <CardTitle className="text-lg">{section.title}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {fields.map((field) => {
+            const nested = field.path.includes('.')
+            const value = started ? getProfileField(profile as CustomerProfile, field.path) as string | string[] | undefined : undefined
+
+            return (
+              <div key={field.path}>
+                {nested && <Label className="text-sm font-medium">{field.label}</Label>}
+                {value === undefined ? (
+                  <div className="space-y-2 mt-1">
+                    <Skeleton className="h-4 w-3/4" />
+                    {field.kind === 'list' && <Skeleton className="h-4 w-1/2" />}
+                  </div>
+                ) : Array.isArray(value) && ((!nested && field.path !== 'communicationChannels') || field.path === 'buyingCommittee.members') ? (
+                  <ul className="space-y-2">
+                    {value.map((item, index) => (
+                      <li key={index} className="text-sm text-muted-foreground flex items-start gap-2">
+                        <span className="text-primary mt-1">•</span>
+                        {item}
+                      </li>
+                    ))}
+                  </ul>
+                ) : Array.isArray(value) ? (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {value.map((item, index) => (
+                      <Badge key={index} variant="secondary" className="text-xs">{item}</Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{value}</p>
+                )}
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-4">
+            <span className="flex items-center gap-2">
+              {isStreaming ? (
+                <RefreshCw className="h-5 w-5 text-primary animate-spin" />
+              ) : (
+                <AlertCircle className="h-5 w-5 text-destructive" />
+              )}
+              {isStreaming ? 'Generating your customer profile...' : 'Generation stopped'}
+            </span>
+            {isStreaming ? (
+              <Button size="sm" variant="outline" onClick={onCancel}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            ) : (
+              <div className="flex gap-2">
+                <Button size="sm" onClick={onResume}>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={onDiscard}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Discard
+                </Button>
+              </div>
+            )}
+          </CardTitle>
+          <CardDescription>
+            {isStreaming
+              ? caption ?? 'Sections appear here as soon as they are written.'
+              : `${finishedCount} of ${sections.length} sections finished. Resume to generate the rest; finished sections are kept as they are.`}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {sections.filter(section => !WIDE_SECTIONS.includes(section.key)).map(sectionCard)}
+      </div>
+      {sections.filter(section => WIDE_SECTIONS.includes(section.key)).map(sectionCard)}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { useRef, useState } from 'react'
+import type { ProfileGenerationProvider } from '../lib/generation-provider'
+import { notifyGenerationError } from '../lib/generation-toast'
+import { generateAntiPersona } from '../lib/profile-core'
+import type { AntiPersona, BusinessInfo, Persona } from '../types/profile'
+
+/**
+ * The anti-persona shown next to the personas. Like rationales, it arrives
+ * after the profiles it is based on.
+ */
+export function useAntiPersona(provider: ProfileGenerationProvider, businessInfo: BusinessInfo) {
+  const [antiPersona, setAntiPersona] = useState<AntiPersona | null>(null)
+  const [isGenerating, setIsGenerating] = useState(false)
+  // Bumped whenever the personas are replaced, so a slow anti-persona for the old ones is dropped
+  const requestRef = useRef(0)
+
+  /** Shows `next` (or none) in place of the current anti-persona and drops any pending one. */
+  const resetAntiPersona = (next: AntiPersona | null = null) => {
+    requestRef.current++
+    setAntiPersona(next)
+    setIsGenerating(false)
+  }
+
+  const createAntiPersona = async (forPersonas: Persona[], reportErrors = false) => {
+    const requestId = ++requestRef.current
+    setIsGenerating(true)
+    try {
+      const result = await generateAntiPersona(businessInfo, forPersonas, { provider })
+      if (requestId === requestRef.current) setAntiPersona(result)
+    } catch (error) {
+      console.error('Error generating anti-persona:', error)
+      if (reportErrors) notifyGenerationError(error, 'anti-persona', () => createAntiPersona(forPersonas, true))
+    } finally {
+      if (requestId === requestRef.current) setIsGenerating(false)
+    }
+  }
+
+  return { antiPersona, isGenerating, createAntiPersona, resetAntiPersona }
+}
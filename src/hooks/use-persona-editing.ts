@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import type { ProfileGenerationProvider } from '../lib/generation-provider'
+import { notifyGenerationError } from '../lib/generation-toast'
+import {
+  getSectionFields,
+  getSectionOfField,
+  getSectionTitle,
+  setProfileField,
+  type ProfileFieldPath,
+  type ProfileFieldValue,
+  type ProfileSectionKey
+} from '../lib/profile-fields'
+import { toggleLock, updateLocksForEdit } from '../lib/profile-locks'
+import { dropRationales } from '../lib/profile-rationale'
+import type { BusinessInfo, Persona } from '../types/profile'
+
+/**
+ * Hand edits, locks and section regeneration for the persona in the active
+ * tab. Changes are written with `updatePersona`, by persona id, and fields
+ * the AI writes again are passed to `explainPersona`.
+ */
+export function usePersonaEditing(
+  provider: ProfileGenerationProvider,
+  businessInfo: BusinessInfo,
+  activePersona: Persona | undefined,
+  updatePersona: (id: string, update: (persona: Persona) => Persona) => void,
+  explainPersona: (persona: Persona, paths?: ProfileFieldPath[]) => void
+) {
+  // By persona id, so a section being rewritten on one tab leaves the others usable
+  const [regeneratingSections, setRegeneratingSections] = useState<Partial<Record<string, ProfileSectionKey>>>({})
+  const regeneratingSection = (activePersona && regeneratingSections[activePersona.id]) ?? null
+
+  const regenerateSection = async (section: ProfileSectionKey) => {
+    if (!activePersona) return
+
+    const personaId = activePersona.id
+    setRegeneratingSections(prev => ({ ...prev, [personaId]: section }))
+    try {
+      const value = await provider.regenerateSection(businessInfo, activePersona.customerProfile, section, activePersona.lockedFields)
+      const keptEdits = (persona: Persona) => persona.editedFields.filter(path => getSectionOfField(path) !== section || path in persona.lockedFields)
+      updatePersona(activePersona.id, persona => ({
+        ...persona,
+        customerProfile: { ...persona.customerProfile, [section]: value },
+        // The section is AI-written again, so its unlocked fields no longer count as hand edits
+        editedFields: keptEdits(persona),
+        rationales: dropRationales(persona.rationales, getSectionFields(section))
+      }))
+      const stillEdited = keptEdits(activePersona)
+      explainPersona(
+        { ...activePersona, customerProfile: { ...activePersona.customerProfile, [section]: value } },
+        getSectionFields(section).filter(path => !stillEdited.includes(path))
+      )
+    } catch (error) {
+      console.error(`Error regenerating ${section}:`, error)
+      notifyGenerationError(error, `${getSectionTitle(section)} regeneration`, () => regenerateSection(section))
+    } finally {
+      setRegeneratingSections(({ [personaId]: _done, ...rest }) => rest)
+    }
+  }
+
+  const updateField = (path: ProfileFieldPath, value: ProfileFieldValue) => {
+    if (!activePersona) return
+    updatePersona(activePersona.id, persona => ({
+      ...persona,
+      customerProfile: setProfileField(persona.customerProfile, path, value),
+      editedFields: persona.editedFields.includes(path) ? persona.editedFields : [...persona.editedFields, path],
+      lockedFields: updateLocksForEdit(persona.lockedFields, path, value),
+      // The rationale explained the generated value, not this one
+      rationales: dropRationales(persona.rationales, [path])
+    }))
+  }
+
+  const toggleFieldLock = (path: ProfileFieldPath, value: string, item?: string) => {
+    if (!activePersona) return
+    updatePersona(activePersona.id, persona => ({ ...persona, lockedFields: toggleLock(persona.lockedFields, path, value, item) }))
+  }
+
+  const clearLocks = () => {
+    if (!activePersona) return
+    updatePersona(activePersona.id, persona => ({ ...persona, lockedFields: {} }))
+  }
+
+  return { regeneratingSection, regenerateSection, updateField, toggleFieldLock, clearLocks }
+}
@@ -0,0 +1,47 @@
+import { useState } from 'react'
+import type { ProfileGenerationProvider } from '../lib/generation-provider'
+import { notifyGenerationError } from '../lib/generation-toast'
+import { getUnexplainedFields, mergeRationales } from '../lib/profile-rationale'
+import type { BusinessInfo, Persona } from '../types/profile'
+
+/**
+ * Rationales are requested after a profile is shown, so a slow explanation
+ * never holds it up. Results are written with `updatePersona`, by persona id,
+ * so they land on the persona they were made for.
+ */
+export function usePersonaExplanations(
+  provider: ProfileGenerationProvider,
+  businessInfo: BusinessInfo,
+  updatePersona: (id: string, update: (persona: Persona) => Persona) => void
+) {
+  const [explainingPersonaIds, setExplainingPersonaIds] = useState<string[]>([])
+
+  // By default every AI-written field without a rationale is explained
+  const explainPersona = async (
+    persona: Persona,
+    paths = getUnexplainedFields(persona.customerProfile, persona.rationales).filter(path => !persona.editedFields.includes(path)),
+    reportErrors = false
+  ) => {
+    if (paths.length === 0) return
+    setExplainingPersonaIds(prev => [...prev, persona.id])
+    try {
+      const added = await provider.explainProfile(businessInfo, persona.customerProfile, paths)
+      updatePersona(persona.id, current => ({
+        ...current,
+        rationales: mergeRationales(current.rationales, current.customerProfile, persona.customerProfile, added)
+      }))
+    } catch (error) {
+      console.error('Error explaining profile:', error)
+      if (reportErrors) notifyGenerationError(error, 'explanation', () => explainPersona(persona, paths, true))
+    } finally {
+      setExplainingPersonaIds(prev => {
+        const index = prev.indexOf(persona.id)
+        return prev.filter((_, i) => i !== index)
+      })
+    }
+  }
+
+  const isExplaining = (personaId: string) => explainingPersonaIds.includes(personaId)
+
+  return { explainPersona, isExplaining }
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import type { ProfileGenerationProvider } from '../lib/generation-provider'
+import { notifyGenerationError } from '../lib/generation-toast'
+import type { ProfileFieldPath } from '../lib/profile-fields'
+import { applyProfilePatch, diffProfilePatch } from '../lib/profile-refinement'
+import { dropRationales } from '../lib/profile-rationale'
+import type { BusinessInfo, Persona, RefinementMessage } from '../types/profile'
+
+/**
+ * The refinement chat of the persona in the active tab. Proposed changes
+ * wait in the chat until the user accepts or rejects them; accepted ones
+ * are passed to `explainPersona`.
+ */
+export function usePersonaRefinement(
+  provider: ProfileGenerationProvider,
+  businessInfo: BusinessInfo,
+  activePersona: Persona | undefined,
+  updatePersona: (id: string, update: (persona: Persona) => Persona) => void,
+  explainPersona: (persona: Persona, paths?: ProfileFieldPath[]) => void
+) {
+  // By persona id, so a reply still on its way only holds up the chat it belongs to
+  const [refiningPersonaIds, setRefiningPersonaIds] = useState<string[]>([])
+  const isRefining = !!activePersona && refiningPersonaIds.includes(activePersona.id)
+
+  const addMessage = (personaId: string, message: RefinementMessage) => {
+    updatePersona(personaId, persona => ({ ...persona, refinementChat: [...persona.refinementChat, message] }))
+  }
+
+  const refine = async (instruction: string) => {
+    if (!activePersona) return
+
+    const { id: personaId, customerProfile, refinementChat, lockedFields } = activePersona
+
+    addMessage(personaId, {
+      id: `${Date.now()}-user`,
+      role: 'user',
+      content: instruction,
+      createdAt: new Date().toISOString()
+    })
+    setRefiningPersonaIds(prev => [...prev, personaId])
+
+    try {
+      const { reply, changes } = await provider.refineProfile(
+        businessInfo,
+        customerProfile,
+        refinementChat,
+        instruction,
+        lockedFields
+      )
+      const hasChanges = diffProfilePatch(customerProfile, changes).length > 0
+      addMessage(personaId, {
+        id: `${Date.now()}-assistant`,
+        role: 'assistant',
+        content: hasChanges ? reply : `${reply}\n\nNo changes were needed.`,
+        patch: hasChanges ? changes : undefined,
+        status: hasChanges ? 'pending' : undefined,
+        createdAt: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Error refining profile:', error)
+      // No retry action: the instruction is already in the chat and can be sent again from there
+      notifyGenerationError(error, 'refinement')
+    } finally {
+      setRefiningPersonaIds(prev => prev.filter(id => id !== personaId))
+    }
+  }
+
+  const resolveRefinement = (messageId: string, status: 'accepted' | 'rejected') => {
+    const message = activePersona?.refinementChat.find(m => m.id === messageId)
+    if (!activePersona || !message?.patch) return
+    const patch = message.patch
+    const accepted = status === 'accepted'
+    const changedPaths = patch.map(change => change.path)
+    updatePersona(activePersona.id, persona => ({
+      ...persona,
+      customerProfile: accepted ? applyProfilePatch(persona.customerProfile, patch) : persona.customerProfile,
+      rationales: accepted ? dropRationales(persona.rationales, changedPaths) : persona.rationales,
+      refinementChat: persona.refinementChat.map(m => m.id === messageId ? { ...m, status } : m)
+    }))
+    if (accepted) {
+      explainPersona({ ...activePersona, customerProfile: applyProfilePatch(activePersona.customerProfile, patch) }, changedPaths)
+    }
+  }
+
+  return { isRefining, refine, resolveRefinement }
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import type { ProfileGenerationProvider } from '../lib/generation-provider'
+import { notifyGenerationError } from '../lib/generation-toast'
+import { generateCustomerProfile } from '../lib/profile-core'
+import { getModeSections, type ProfileFieldPath } from '../lib/profile-fields'
+import { lockSections, type FieldLocks } from '../lib/profile-locks'
+import type { ProfileMode } from '../lib/profile-mode'
+import { createPersona } from '../lib/profile-personas'
+import { ProfileValidationError, type ProfileFieldError } from '../lib/profile-schema'
+import {
+  getCompletedPersonas,
+  getCompletedSections,
+  getStreamingPersona,
+  toPartialProfile,
+  type PartialCustomerProfile
+} from '../lib/profile-streaming'
+import type { BusinessInfo, CustomerProfile, Persona } from '../types/profile'
+
+interface ProfileGenerationOptions {
+  provider: ProfileGenerationProvider
+  businessInfo: BusinessInfo
+  mode: ProfileMode
+  personaCount: number
+  /** Locks of the persona being regenerated, if it is of the same mode. */
+  locks: FieldLocks
+  editedFields: ProfileFieldPath[]
+  hasPersonas: boolean
+  onStart: () => void
+  /** Called with the generated personas, or those that finished before the stream failed. */
+  onGenerated: (personas: Persona[]) => void
+  onBackToInputs: () => void
+}
+
+/**
+ * Streams a generation into the preview. When a single-profile stream
+ * fails, its finished sections are kept so the next attempt only generates
+ * the rest; for a persona set, the personas that finished are shown.
+ */
+export function useProfileGeneration({
+  provider,
+  businessInfo,
+  mode,
+  personaCount,
+  locks,
+  editedFields,
+  hasPersonas,
+  onStart,
+  onGenerated,
+  onBackToInputs
+}: ProfileGenerationOptions) {
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [generationErrors, setGenerationErrors] = useState<ProfileFieldError[]>([])
+  const [streamingProfile, setStreamingProfile] = useState<PartialCustomerProfile | null>(null)
+  const [streamingCaption, setStreamingCaption] = useState<string | null>(null)
+  const [interruptedSections, setInterruptedSections] = useState<Partial<CustomerProfile> | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const resetGeneration = () => {
+    setStreamingProfile(null)
+    setStreamingCaption(null)
+    setInterruptedSections(null)
+  }
+
+  const discardStreamingProfile = () => {
+    resetGeneration()
+    if (!hasPersonas) onBackToInputs()
+  }
+
+  const keepCompletedSections = (completed: Partial<CustomerProfile>) => {
+    if (Object.keys(completed).length === 0) {
+      discardStreamingProfile()
+      return
+    }
+    setInterruptedSections(completed)
+    setStreamingProfile(completed)
+  }
+
+  const keepCompletedPersonas = (partial: unknown) => {
+    const completed = getCompletedPersonas(partial)
+    if (completed.length === 0) {
+      discardStreamingProfile()
+      return
+    }
+    onGenerated(completed.map(({ customerProfile, segment }) => createPersona(customerProfile, segment)))
+    setStreamingProfile(null)
+    setStreamingCaption(null)
+    toast(`Kept the ${completed.length} of ${personaCount} personas that finished before generation stopped.`)
+  }
+
+  const generate = async () => {
+    // After an interrupted stream, the finished sections are kept and the rest generated
+    // around them, leaving out any that a change of customer type has ruled out
+    const resumeFrom = personaCount > 1 || !interruptedSections ? null : Object.fromEntries(
+      getModeSections(mode).filter(section => section.key in interruptedSections).map(section => [section.key, interruptedSections[section.key]])
+    ) as Partial<CustomerProfile>
+    let latestPartial: unknown = null
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    setIsGenerating(true)
+    setGenerationErrors([])
+    setInterruptedSections(null)
+    setStreamingProfile(resumeFrom ?? {})
+    setStreamingCaption(null)
+    onStart()
+
+    try {
+      const generationLocks = resumeFrom ? { ...lockSections(resumeFrom), ...locks } : locks
+      const generated = await generateCustomerProfile({ businessInfo, mode, personaCount, locks: generationLocks }, {
+        provider,
+        signal: controller.signal,
+        onPartial: (partial) => {
+          latestPartial = partial
+          if (personaCount === 1) {
+            setStreamingProfile({ ...toPartialProfile(partial), ...resumeFrom })
+            return
+          }
+          const streaming = getStreamingPersona(partial)
+          if (!streaming) return
+          setStreamingProfile(streaming.profile)
+          setStreamingCaption(`Persona ${streaming.index + 1} of ${personaCount}${streaming.name ? `: ${streaming.name}` : ''}`)
+        }
+      })
+      onGenerated(personaCount > 1
+        ? generated
+        : [{
+            ...generated[0],
+            customerProfile: { ...generated[0].customerProfile, ...resumeFrom },
+            lockedFields: locks,
+            // Locked values survive regeneration, so hand edits to them still count
+            editedFields: editedFields.filter(path => path in locks)
+          }])
+      setStreamingProfile(null)
+    } catch (error) {
+      console.error('Error generating customer profile:', error)
+      if (error instanceof ProfileValidationError) {
+        setGenerationErrors(error.fieldErrors)
+        discardStreamingProfile()
+        onBackToInputs()
+      } else if (personaCount > 1) {
+        keepCompletedPersonas(latestPartial)
+      } else {
+        keepCompletedSections({ ...getCompletedSections(latestPartial), ...resumeFrom })
+      }
+      notifyGenerationError(error, 'profile generation', () => generateRef.current())
+    } finally {
+      abortRef.current = null
+      setIsGenerating(false)
+    }
+  }
+
+  // The retry action of an error toast outlives the render that showed it,
+  // so it goes through a ref to pick up the resumable sections kept since
+  const generateRef = useRef(generate)
+  useEffect(() => {
+    generateRef.current = generate
+  })
+
+  const cancelGeneration = () => {
+    abortRef.current?.abort()
+  }
+
+  return {
+    isGenerating,
+    generationErrors,
+    streamingProfile,
+    streamingCaption,
+    interruptedSections,
+    generate,
+    cancelGeneration,
+    discardStreamingProfile,
+    resetGeneration
+  }
+}
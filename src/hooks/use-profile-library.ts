@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import toast from 'react-hot-toast'
+import { isLocalMode } from '../lib/generation-config'
+import { createProfileRepository, type FailedWrite, type ProfileRepositoryStatus, type QuarantinedProfile } from '../lib/profile-repository'
+import { PROFILE_SCHEMA_VERSION } from '../lib/profile-schema'
+import type { AntiPersona, BusinessInfo, Persona, SavedProfile } from '../types/profile'
+
+/**
+ * The user's saved profiles and the one currently open. Changes show in the
+ * library straight away and are taken back out if they could not be stored.
+ */
+export function useProfileLibrary(userId: string) {
+  const repository = useMemo(() => createProfileRepository(userId, isLocalMode ? 'local' : 'cloud'), [userId])
+  const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [storageStatus, setStorageStatus] = useState<ProfileRepositoryStatus>(() => repository.getStatus())
+  const [quarantinedProfiles, setQuarantinedProfiles] = useState<QuarantinedProfile[]>([])
+  const [failedWrites, setFailedWrites] = useState<FailedWrite[]>([])
+
+  const loadSavedProfiles = useCallback(async () => {
+    try {
+      setSavedProfiles(await repository.list())
+    } catch (error) {
+      console.error('Error loading saved profiles:', error)
+    } finally {
+      setStorageStatus(repository.getStatus())
+      setQuarantinedProfiles(repository.getQuarantined())
+      setFailedWrites(repository.getFailedWrites())
+    }
+  }, [repository])
+
+  // Load saved profiles on mount, and again when we come back online so
+  // writes queued while offline get synced
+  useEffect(() => {
+    loadSavedProfiles()
+    window.addEventListener('online', loadSavedProfiles)
+    return () => window.removeEventListener('online', loadSavedProfiles)
+  }, [loadSavedProfiles])
+
+  const putProfile = async (profile: SavedProfile) => {
+    const previous = savedProfiles.find(p => p.id === profile.id)
+    setSavedProfiles(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => p.id === profile.id ? profile : p)
+      : [...prev, profile])
+    try {
+      await repository.save(profile)
+    } catch (error) {
+      setSavedProfiles(prev => previous
+        ? prev.map(p => p.id === profile.id ? previous : p)
+        : prev.filter(p => p.id !== profile.id))
+      throw error
+    } finally {
+      setStorageStatus(repository.getStatus())
+    }
+  }
+
+  const saveProfile = async (businessInfo: BusinessInfo, personas: Persona[], antiPersona: AntiPersona | null) => {
+    if (personas.length === 0) return
+
+    setIsSaving(true)
+    try {
+      // Re-saving a profile opened from the library updates it in place
+      const existing = savedProfiles.find(profile => profile.id === activeProfileId)
+      if (existing) {
+        await putProfile({
+          ...existing,
+          ...businessInfo,
+          personas,
+          antiPersona: antiPersona ?? undefined,
+          updatedAt: new Date().toISOString()
+        })
+        return
+      }
+
+      const profileData: SavedProfile = {
+        schemaVersion: PROFILE_SCHEMA_VERSION,
+        id: Date.now().toString(),
+        profileName: `Profile ${new Date().toLocaleDateString()}`,
+        ...businessInfo,
+        personas,
+        antiPersona: antiPersona ?? undefined,
+        createdAt: new Date().toISOString()
+      }
+
+      await putProfile(profileData)
+      setActiveProfileId(profileData.id)
+    } catch (error) {
+      console.error('Error saving profile:', error)
+      toast.error('The profile could not be saved. Your browser storage may be full.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renameProfile = async (id: string, profileName: string) => {
+    const profile = savedProfiles.find(p => p.id === id)
+    if (!profile) return
+    try {
+      await putProfile({ ...profile, profileName, updatedAt: new Date().toISOString() })
+    } catch (error) {
+      console.error('Error renaming profile:', error)
+      toast.error('The profile could not be renamed')
+    }
+  }
+
+  const duplicateProfile = async (profile: SavedProfile) => {
+    try {
+      await putProfile({
+        ...profile,
+        id: Date.now().toString(),
+        profileName: `${profile.profileName} (copy)`,
+        createdAt: new Date().toISOString(),
+        updatedAt: undefined
+      })
+    } catch (error) {
+      console.error('Error duplicating profile:', error)
+      toast.error('The profile could not be duplicated')
+    }
+  }
+
+  const importProfiles = async (profiles: SavedProfile[]) => {
+    try {
+      for (const profile of profiles) {
+        await putProfile(profile)
+      }
+      toast.success(`Imported ${profiles.length} ${profiles.length === 1 ? 'profile' : 'profiles'}`)
+    } catch (error) {
+      console.error('Error importing profiles:', error)
+      toast.error('Some profiles could not be imported')
+    }
+  }
+
+  const deleteProfile = async (id: string) => {
+    setSavedProfiles(prev => prev.filter(profile => profile.id !== id))
+    if (activeProfileId === id) {
+      setActiveProfileId(null)
+    }
+    try {
+      await repository.remove(id)
+      setStorageStatus(repository.getStatus())
+    } catch (error) {
+      console.error('Error deleting profile:', error)
+    }
+  }
+
+  const discardQuarantinedProfile = async (id: string) => {
+    try {
+      await repository.discardQuarantined(id)
+    } catch (error) {
+      console.error('Error discarding quarantined profile:', error)
+    } finally {
+      setQuarantinedProfiles(repository.getQuarantined())
+    }
+  }
+
+  const retryFailedWrites = () => {
+    repository.retryFailedWrites()
+    loadSavedProfiles()
+  }
+
+  const discardFailedWrite = (id: string) => {
+    repository.discardFailedWrite(id)
+    loadSavedProfiles()
+  }
+
+  return {
+    savedProfiles,
+    activeProfileId,
+    setActiveProfileId,
+    isSaving,
+    storageStatus,
+    quarantinedProfiles,
+    failedWrites,
+    saveProfile,
+    renameProfile,
+    duplicateProfile,
+    importProfiles,
+    deleteProfile,
+    discardQuarantinedProfile,
+    retryFailedWrites,
+    discardFailedWrite
+  }
+}
@@ -0,0 +1,60 @@
+import { generateValidated, type RequestOptions } from './profile-generation'
+import { getProfileMode, getProfileModeLabel } from './profile-mode'
+import {
+  antiPersonaSchema,
+  type AntiPersona,
+  type BusinessInfo,
+  type CustomerProfile,
+  type ProfileFieldError
+} from './profile-schema'
+
+type AntiPersonaListKey = 'reasons' | 'disqualifyingSignals' | 'redFlagPhrases'
+
+/** The list fields of an anti-persona, in display order. */
+export const ANTI_PERSONA_LISTS: { key: AntiPersonaListKey, label: string }[] = [
+  { key: 'reasons', label: 'Why They Are a Poor Fit' },
+  { key: 'disqualifyingSignals', label: 'Disqualifying Signals' },
+  { key: 'redFlagPhrases', label: 'Red-Flag Phrases' }
+]
+
+// The same point under two headings reads as padding
+function checkAntiPersona(antiPersona: AntiPersona): ProfileFieldError[] {
+  const seen = new Set<string>()
+  return ANTI_PERSONA_LISTS.flatMap(({ key }) => antiPersona[key].flatMap((item, index) => {
+    const text = item.trim().toLowerCase()
+    const duplicate = seen.has(text)
+    seen.add(text)
+    return duplicate ? [{ path: `${key}.${index}`, message: 'Repeats another point; make each one say something new' }] : []
+  }))
+}
+
+/**
+ * Describes the customers the business should not target: people or
+ * companies that resemble the generated profiles closely enough to look
+ * attractive, but are a poor fit once you know what to look for.
+ */
+export async function requestAntiPersona(
+  businessInfo: BusinessInfo,
+  profiles: CustomerProfile[],
+  request: RequestOptions = {}
+): Promise<AntiPersona> {
+  const mode = getProfileMode(profiles[0])
+  const prompt = `
+    You are a customer research expert. A business has these ideal customer ${profiles.length > 1 ? 'personas' : 'profile'}:
+
+    Vision Statement: ${businessInfo.visionStatement}
+    Mission Statement: ${businessInfo.missionStatement}
+    Business Description: ${businessInfo.businessDescription}
+    Target Market: ${businessInfo.targetMarket}
+
+    ${JSON.stringify(profiles, null, 2)}
+
+    Describe their anti-persona: ${mode === 'b2b' ? 'a kind of company' : 'a kind of customer'} that looks attractive at first, for example because they are enthusiastic, large or close to the ideal profile, but is a poor fit for this business.
+    The ideal customers are ${getProfileModeLabel(mode)}, so the anti-persona is the same type of customer.
+    Explain why they are a poor fit, for example because they cost more to serve than they pay, churn quickly, or want something the business does not offer.
+    List disqualifying signals a salesperson or marketer could notice early, and red-flag phrases written in the customer's own words.
+    Be specific to this business, and do not describe someone who simply has no interest in it.
+  `
+
+  return generateValidated(prompt, antiPersonaSchema, { ...request, check: checkAntiPersona })
+}
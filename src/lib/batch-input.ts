@@ -0,0 +1,185 @@
+import type { ProfileMode } from './profile-mode'
+import type { BusinessInfo } from './profile-schema'
+
+export type BatchInputFormat = 'csv' | 'jsonl'
+
+/** One business to generate for. `key` names its output files, so it stays the same between runs. */
+export interface BatchRow {
+  key: string
+  /** 1-based line in the input, for error messages. */
+  line: number
+  businessInfo: BusinessInfo
+  personaCount?: number
+  mode?: ProfileMode
+}
+
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BatchInputError'
+  }
+}
+
+// Headers are matched case-insensitively and ignoring spaces, dashes and underscores
+const COLUMN_ALIASES: Record<keyof BusinessInfo | 'key' | 'personaCount' | 'mode', string[]> = {
+  visionStatement: ['vision', 'visionstatement'],
+  missionStatement: ['mission', 'missionstatement'],
+  businessDescription: ['business', 'businessdescription', 'description'],
+  targetMarket: ['target', 'targetmarket'],
+  key: ['id', 'key', 'name', 'client'],
+  personaCount: ['personas', 'personacount'],
+  mode: ['mode', 'customertype']
+}
+
+const REQUIRED_COLUMNS = ['visionStatement', 'missionStatement', 'businessDescription'] as const
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[\s_-]/g, '')
+}
+
+function findColumn(headers: string[], column: keyof typeof COLUMN_ALIASES) {
+  return headers.find(header => COLUMN_ALIASES[column].includes(normalizeHeader(header)))
+}
+
+/** RFC 4180: quoted fields may contain commas, newlines and doubled quotes. Returns each record with its starting line. */
+export function parseCsv(text: string): { line: number, fields: string[] }[] {
+  const records: { line: number, fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    if (fields.length > 1 || fields[0].trim() !== '') records.push({ line: recordLine, fields })
+    fields = []
+    field = ''
+    recordLine = line
+  }
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      line++
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+  if (quoted) throw new BatchInputError(`Unclosed quote in the record starting on line ${recordLine}`)
+  if (field !== '' || fields.length > 0) endRecord()
+  return records
+}
+
+interface InputRecords {
+  headers: string[]
+  records: { line: number, record: Record<string, unknown> }[]
+}
+
+function readCsv(text: string): InputRecords {
+  const [header, ...rows] = parseCsv(text)
+  const headers = header?.fields.map(name => name.trim()) ?? []
+  return {
+    headers,
+    records: rows.map(({ line, fields }) => ({
+      line,
+      record: Object.fromEntries(headers.map((name, index) => [name, fields[index] ?? '']))
+    }))
+  }
+}
+
+function readJsonl(text: string): InputRecords {
+  const records = text.split(/\r?\n/).flatMap((content, index) => {
+    if (!content.trim()) return []
+    let record: unknown
+    try {
+      record = JSON.parse(content)
+    } catch {
+      throw new BatchInputError(`Line ${index + 1} is not valid JSON`)
+    }
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      throw new BatchInputError(`Line ${index + 1} must be a JSON object`)
+    }
+    return [{ line: index + 1, record: record as Record<string, unknown> }]
+  })
+  return { headers: [...new Set(records.flatMap(({ record }) => Object.keys(record)))], records }
+}
+
+function slugify(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+}
+
+/**
+ * Reads businesses from a CSV file with a header row, or from JSONL with one
+ * object per line. Columns are `vision`, `mission`, `business` and
+ * `target`, plus an optional `id` to name the outputs, an optional
+ * `personas` count and `mode` (b2c or b2b; empty or `auto` leaves it to the
+ * default). Without an `id`, outputs are named after the row number, so
+ * reordering the input between runs breaks resuming.
+ */
+export function parseBatchInput(text: string, format: BatchInputFormat): BatchRow[] {
+  const { headers, records } = format === 'csv' ? readCsv(text) : readJsonl(text)
+
+  const missing = REQUIRED_COLUMNS.filter(column => !findColumn(headers, column))
+  if (missing.length > 0) {
+    throw new BatchInputError(`Missing ${missing.map(column => `"${COLUMN_ALIASES[column][0]}"`).join(', ')} ${missing.length === 1 ? 'column' : 'columns'}`)
+  }
+
+  const read = ({ record }: { record: Record<string, unknown> }, column: keyof typeof COLUMN_ALIASES) => {
+    const header = findColumn(headers, column)
+    const value = header === undefined ? undefined : record[header]
+    return value === undefined || value === null ? '' : String(value).trim()
+  }
+
+  const seen = new Map<string, number>()
+  return records.map((entry, index) => {
+    const id = slugify(read(entry, 'key'))
+    const key = id || `row-${index + 1}`
+    if (seen.has(key)) {
+      throw new BatchInputError(`Lines ${seen.get(key)} and ${entry.line} both produce outputs named "${key}"`)
+    }
+    seen.set(key, entry.line)
+
+    const personas = read(entry, 'personaCount')
+    const personaCount = personas ? Number(personas) : undefined
+    if (personaCount !== undefined && !Number.isInteger(personaCount)) {
+      throw new BatchInputError(`Line ${entry.line}: "personas" must be a whole number`)
+    }
+
+    const mode = read(entry, 'mode').toLowerCase()
+    if (mode !== '' && mode !== 'auto' && mode !== 'b2c' && mode !== 'b2b') {
+      throw new BatchInputError(`Line ${entry.line}: "mode" must be b2c, b2b or auto`)
+    }
+
+    return {
+      key,
+      line: entry.line,
+      businessInfo: {
+        visionStatement: read(entry, 'visionStatement'),
+        missionStatement: read(entry, 'missionStatement'),
+        businessDescription: read(entry, 'businessDescription'),
+        targetMarket: read(entry, 'targetMarket')
+      },
+      personaCount,
+      mode: mode === 'b2c' || mode === 'b2b' ? mode : undefined
+    }
+  })
+}
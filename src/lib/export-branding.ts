@@ -0,0 +1,78 @@
+import { z } from 'zod'
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i)
+
+/**
+ * How exported documents are branded. It is remembered in this browser
+ * only, so an agency sets it up once rather than per export.
+ */
+export const exportBrandingSchema = z.object({
+  /** Shown on the cover and in the footer; empty for an unbranded report. */
+  companyName: z.string(),
+  /** A PNG data URL, already scaled down when it was uploaded. */
+  logo: z.string().optional(),
+  primaryColor: hexColor,
+  accentColor: hexColor,
+  pageNumbers: z.boolean()
+})
+
+export type ExportBranding = z.infer<typeof exportBrandingSchema>
+
+/** The app's own theme colors. */
+export const DEFAULT_EXPORT_BRANDING: ExportBranding = {
+  companyName: '',
+  primaryColor: '#7764f2',
+  accentColor: '#f59f0a',
+  pageNumbers: true
+}
+
+function toChannels(hex: string) {
+  return [1, 3, 5].map(index => parseInt(hex.slice(index, index + 2), 16))
+}
+
+function toHex(channels: number[]) {
+  return `#${channels.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+}
+
+/** Word and PowerPoint want colors without the leading #. */
+export function hexWithoutHash(hex: string) {
+  return hex.slice(1).toUpperCase()
+}
+
+export function mixWithWhite(hex: string, amount: number) {
+  return toHex(toChannels(hex).map(channel => channel + (255 - channel) * amount))
+}
+
+export function isLightColor(hex: string) {
+  const [red, green, blue] = toChannels(hex)
+  return red * 0.299 + green * 0.587 + blue * 0.114 > 160
+}
+
+/** The brand color for text on white, darkened when it is too pale to read. */
+export function brandTextColor(hex: string) {
+  return isLightColor(hex) ? toHex(toChannels(hex).map(channel => channel * 0.55)) : hex
+}
+
+const BRANDING_KEY = 'export_branding'
+
+export function loadExportBranding(): ExportBranding {
+  try {
+    const raw = localStorage.getItem(BRANDING_KEY)
+    const parsed = exportBrandingSchema.safeParse(raw ? JSON.parse(raw) : null)
+    return parsed.success ? parsed.data : DEFAULT_EXPORT_BRANDING
+  } catch (error) {
+    console.error('Error reading export branding:', error)
+    return DEFAULT_EXPORT_BRANDING
+  }
+}
+
+/** Returns false when the browser refused to store it, usually because the logo is too big. */
+export function saveExportBranding(branding: ExportBranding) {
+  try {
+    localStorage.setItem(BRANDING_KEY, JSON.stringify(branding))
+    return true
+  } catch (error) {
+    console.error('Error saving export branding:', error)
+    return false
+  }
+}
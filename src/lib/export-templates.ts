@@ -0,0 +1,298 @@
+import { z } from 'zod'
+import { PROFILE_FIELDS, PROFILE_SECTIONS } from './profile-fields'
+import { getProfileMode, getProfileModeLabel } from './profile-mode'
+import { getPersonaTitle, isPersonaSet } from './profile-personas'
+import { renderTemplate } from './template-engine'
+import type { AntiPersona, BusinessInfo, Persona } from './profile-schema'
+
+/**
+ * Export templates let users write their own report layout in the language
+ * of `template-engine.ts`. The built-in ones are starting points; users'
+ * own templates are kept in this browser, like the export branding.
+ */
+
+export const TEMPLATE_FORMATS = [
+  { key: 'text', label: 'Plain Text', extension: 'txt', mimeType: 'text/plain' },
+  { key: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+] as const
+
+export type TemplateFormat = typeof TEMPLATE_FORMATS[number]['key']
+
+export const exportTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  format: z.enum(['text', 'markdown']),
+  body: z.string(),
+  updatedAt: z.string()
+})
+
+export type ExportTemplate = z.infer<typeof exportTemplateSchema>
+
+export function getTemplateFormat(format: TemplateFormat) {
+  return TEMPLATE_FORMATS.find(option => option.key === format)!
+}
+
+const STANDARD_REPORT = `CUSTOMER PROFILE REPORT
+Generated: {{generatedAt}}
+
+BUSINESS INFORMATION
+Vision Statement: {{business.visionStatement}}
+Mission Statement: {{business.missionStatement}}
+Business Description: {{business.businessDescription}}
+Target Market: {{#if business.targetMarket}}{{business.targetMarket}}{{else}}Not specified{{/if}}
+Customer Type: {{business.customerType}}
+{{#each personas}}
+
+
+PERSONA {{@number}}: {{title}}
+{{#if segment}}
+Segment: {{segment.label}}
+How they differ: {{segment.differentiator}}
+{{/if}}
+{{#if narrative}}
+
+"{{narrative.quote}}"
+{{narrative.dayInTheLife}}
+{{/if}}
+{{#if demographics}}
+
+DEMOGRAPHICS
+Age Range: {{demographics.ageRange}}
+Gender: {{demographics.gender}}
+Location: {{demographics.location}}
+Income Level: {{demographics.income}}
+Education: {{demographics.education}}
+{{/if}}
+{{#if firmographics}}
+
+FIRMOGRAPHICS
+Company Size: {{firmographics.companySize}}
+Industry: {{firmographics.industry}}
+Revenue Band: {{firmographics.revenueBand}}
+Tech Stack: {{firmographics.techStack}}
+{{/if}}
+
+PSYCHOGRAPHICS
+Values: {{psychographics.values}}
+Interests: {{psychographics.interests}}
+Lifestyle: {{psychographics.lifestyle}}
+Personality: {{psychographics.personality}}
+
+PAIN POINTS
+{{#each painPoints}}
+• {{this}}
+{{/each}}
+
+MOTIVATIONS
+{{#each motivations}}
+• {{this}}
+{{/each}}
+
+GOALS
+{{#each goals}}
+• {{this}}
+{{/each}}
+
+COMMUNICATION CHANNELS
+{{communicationChannels}}
+{{#if buyingCommittee}}
+
+BUYING COMMITTEE
+Decision Makers: {{buyingCommittee.decisionMakers}}
+Members:
+{{#each buyingCommittee.members}}
+• {{this}}
+{{/each}}
+Sales Cycle: {{buyingCommittee.salesCycle}}
+{{/if}}
+
+BUYING BEHAVIOR
+Decision Factors: {{buyingBehavior.decisionFactors}}
+Purchase Process: {{buyingBehavior.purchaseProcess}}
+Budget Range: {{buyingBehavior.budget}}
+{{/each}}
+{{#if antiPersona}}
+
+
+ANTI-PERSONA: {{antiPersona.name}}
+{{antiPersona.description}}
+Why they look attractive: {{antiPersona.appeal}}
+
+WHY THEY ARE A POOR FIT
+{{#each antiPersona.reasons}}
+• {{this}}
+{{/each}}
+
+DISQUALIFYING SIGNALS
+{{#each antiPersona.disqualifyingSignals}}
+• {{this}}
+{{/each}}
+
+RED-FLAG PHRASES
+{{#each antiPersona.redFlagPhrases}}
+• "{{this}}"
+{{/each}}
+{{/if}}
+`
+
+const CLIENT_BRIEF = `# {{#if companyName}}{{companyName}}: {{/if}}Customer Insight Brief
+
+_Prepared {{generatedAt}}_
+
+**Vision:** {{business.visionStatement}}
+
+**Mission:** {{business.missionStatement}}
+
+{{#each personas}}
+## {{@number}}. {{title}}
+{{#if narrative}}
+
+> {{narrative.quote}}
+{{/if}}
+
+**What keeps them up at night**
+
+{{#each painPoints}}
+- {{this}}
+{{/each}}
+
+**What they want**
+
+{{#each goals}}
+- {{this}}
+{{/each}}
+
+**Where to reach them:** {{communicationChannels}}
+
+{{/each}}
+{{#if antiPersona}}
+## Who Not to Target: {{antiPersona.name}}
+
+{{antiPersona.description}}
+
+{{#each antiPersona.disqualifyingSignals}}
+- {{this}}
+{{/each}}
+{{/if}}
+`
+
+/** Read-only; users duplicate one to change it. */
+export const BUILT_IN_TEMPLATES: ExportTemplate[] = [
+  { id: 'built-in-standard', name: 'Standard Report', format: 'text', body: STANDARD_REPORT, updatedAt: '' },
+  { id: 'built-in-client-brief', name: 'Client Brief', format: 'markdown', body: CLIENT_BRIEF, updatedAt: '' }
+]
+
+export function isBuiltInTemplate(template: ExportTemplate) {
+  return BUILT_IN_TEMPLATES.some(builtIn => builtIn.id === template.id)
+}
+
+export function createExportTemplate(name: string, format: TemplateFormat, body: string): ExportTemplate {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    format,
+    body,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+const TEMPLATES_KEY = 'export_templates'
+
+/** The user's own templates; unreadable entries are dropped. */
+export function loadExportTemplates(): ExportTemplate[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]')
+    return Array.isArray(raw) ? raw.flatMap(entry => {
+      const parsed = exportTemplateSchema.safeParse(entry)
+      return parsed.success ? [parsed.data] : []
+    }) : []
+  } catch (error) {
+    console.error('Error reading export templates:', error)
+    return []
+  }
+}
+
+/** Returns false when the browser refused to store them. */
+export function saveExportTemplates(templates: ExportTemplate[]) {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates))
+    return true
+  } catch (error) {
+    console.error('Error saving export templates:', error)
+    return false
+  }
+}
+
+export interface TemplatePlaceholderGroup {
+  title: string
+  description: string
+  placeholders: { name: string, list: boolean }[]
+}
+
+const value = (name: string) => ({ name, list: false })
+const list = (name: string) => ({ name, list: true })
+
+/** Every name a template can use, for the editor's reference panel. */
+export const TEMPLATE_PLACEHOLDERS: TemplatePlaceholderGroup[] = [
+  {
+    title: 'Report',
+    description: 'Anywhere in the template',
+    placeholders: [value('companyName'), value('generatedAt'), value('reportTitle')]
+  },
+  {
+    title: 'Business',
+    description: 'Anywhere in the template',
+    placeholders: ['visionStatement', 'missionStatement', 'businessDescription', 'targetMarket', 'customerType'].map(name => value(`business.${name}`))
+  },
+  {
+    title: 'Personas',
+    description: 'Inside {{#each personas}}, once per persona; a single profile is a list of one',
+    placeholders: [
+      value('title'),
+      value('segment.label'),
+      value('segment.differentiator'),
+      ...PROFILE_FIELDS.map(field => field.kind === 'list' ? list(field.path) : value(field.path))
+    ]
+  },
+  {
+    title: 'Anti-persona',
+    description: 'Inside {{#if antiPersona}}, as it may not have been generated',
+    placeholders: [
+      value('antiPersona.name'),
+      value('antiPersona.description'),
+      value('antiPersona.appeal'),
+      list('antiPersona.reasons'),
+      list('antiPersona.disqualifyingSignals'),
+      list('antiPersona.redFlagPhrases')
+    ]
+  }
+]
+
+/** What a template can read. Sections a profile lacks are present but empty, so they are not reported as unknown. */
+export function buildTemplateContext(
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  antiPersona: AntiPersona | undefined,
+  companyName: string,
+  generatedAt = new Date()
+): Record<string, unknown> {
+  return {
+    companyName,
+    generatedAt: generatedAt.toLocaleDateString(),
+    reportTitle: isPersonaSet(personas) ? 'Customer Personas' : 'Ideal Customer Profile',
+    business: {
+      ...businessInfo,
+      customerType: getProfileModeLabel(getProfileMode(personas[0].customerProfile))
+    },
+    personas: personas.map((persona, index) => ({
+      title: persona.customerProfile.narrative?.name ?? (isPersonaSet(personas) ? getPersonaTitle(persona, index) : 'Your Customer'),
+      segment: persona.segment,
+      ...Object.fromEntries(PROFILE_SECTIONS.map(section => [section.key, persona.customerProfile[section.key]]))
+    })),
+    antiPersona
+  }
+}
+
+export function renderExportTemplate(template: ExportTemplate, context: Record<string, unknown>) {
+  return renderTemplate(template.body, context)
+}
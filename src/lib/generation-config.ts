@@ -0,0 +1,42 @@
+/**
+ * Limits for AI requests. The defaults can be changed at build time with
+ * `VITE_GENERATION_TIMEOUT_MS`, `VITE_GENERATION_MAX_RETRIES` and
+ * `VITE_GENERATION_RETRY_DELAY_MS`, or per call through `RequestOptions`.
+ */
+export interface GenerationConfig {
+  /**
+   * Abort a request after this long without a response. Streaming requests
+   * restart the clock on every partial update. 0 disables the timeout.
+   */
+  timeoutMs: number
+  /** Extra tries after a transient failure (network error, timeout, rate limit). */
+  maxRetries: number
+  /** Wait before the first retry; doubled for each one after that. */
+  retryDelayMs: number
+}
+
+// `import.meta.env` only exists in Vite builds
+const env: Record<string, string | undefined> = import.meta.env ?? {}
+
+function readNumber(name: string, fallback: number) {
+  const value = env[name]
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export const defaultGenerationConfig: GenerationConfig = {
+  timeoutMs: readNumber('VITE_GENERATION_TIMEOUT_MS', 60_000),
+  maxRetries: readNumber('VITE_GENERATION_MAX_RETRIES', 2),
+  retryDelayMs: readNumber('VITE_GENERATION_RETRY_DELAY_MS', 1_000)
+}
+
+export type GenerationProviderName = 'blink' | 'local'
+
+/**
+ * Which provider writes profiles, set with `VITE_GENERATION_PROVIDER`. The
+ * local provider needs no network, so choosing it also puts the app in local
+ * mode: no sign-in, and the profile library stays in localStorage.
+ */
+export const generationProviderName: GenerationProviderName = env.VITE_GENERATION_PROVIDER === 'local' ? 'local' : 'blink'
+
+export const isLocalMode = generationProviderName === 'local'
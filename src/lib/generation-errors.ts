@@ -0,0 +1,61 @@
+import { ProfileValidationError } from './profile-schema'
+
+/** What went wrong with an AI request, as far as the user needs to know. */
+export type GenerationErrorKind = 'cancelled' | 'auth' | 'rate-limit' | 'invalid-output' | 'network' | 'unknown'
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled')
+    this.name = 'GenerationCancelledError'
+  }
+}
+
+export class GenerationTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response from the AI within ${Math.round(timeoutMs / 1000)}s`)
+    this.name = 'GenerationTimeoutError'
+  }
+}
+
+interface ErrorLike {
+  code?: string
+  status?: number
+  details?: { originalError?: unknown }
+  cause?: unknown
+}
+
+// The SDK wraps failed AI calls in an AI_ERROR and keeps the underlying
+// HTTP or network error in `details.originalError`
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = []
+  let current = error
+  while (current && !chain.includes(current)) {
+    chain.push(current)
+    const { details, cause } = current as ErrorLike
+    current = details?.originalError ?? cause
+  }
+  return chain
+}
+
+export function classifyGenerationError(error: unknown): GenerationErrorKind {
+  const chain = errorChain(error)
+  const matches = (test: (error: ErrorLike) => boolean) => chain.some(e => typeof e === 'object' && test(e as ErrorLike))
+
+  if (chain.some(e => e instanceof GenerationCancelledError)) return 'cancelled'
+  if (matches(e => e.code === 'AUTH_ERROR' || e.status === 401 || e.status === 403)) return 'auth'
+  if (matches(e => e.status === 429)) return 'rate-limit'
+  if (chain.some(e => e instanceof ProfileValidationError || e instanceof SyntaxError)) return 'invalid-output'
+  if (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    chain.some(e => e instanceof GenerationTimeoutError || (e instanceof TypeError && /fetch|network/i.test(e.message))) ||
+    matches(e => e.code === 'NETWORK_ERROR' && (!e.status || e.status >= 500))
+  ) {
+    return 'network'
+  }
+  return 'unknown'
+}
+
+/** Failures that may well succeed if the same request is sent again shortly. */
+export function isTransientError(kind: GenerationErrorKind) {
+  return kind === 'network' || kind === 'rate-limit'
+}
@@ -0,0 +1,84 @@
+import { requestAntiPersona } from './anti-persona'
+import { generationProviderName, type GenerationProviderName } from './generation-config'
+import { localGenerationProvider } from './local-generation-provider'
+import {
+  generatePersonaSet,
+  generateValidatedProfile,
+  regenerateProfileSection,
+  type GeneratedPersona,
+  type ObjectGenerationClient,
+  type RequestOptions
+} from './profile-generation'
+import type { ProfileFieldPath, ProfileSectionKey } from './profile-fields'
+import type { FieldLocks } from './profile-locks'
+import type { ProfileMode } from './profile-mode'
+import { requestProfileRefinement, type RefinementResponse } from './profile-refinement'
+import { requestProfileRationales } from './profile-rationale'
+import type { AntiPersona, BusinessInfo, CustomerProfile, ProfileRationales, RefinementMessage } from './profile-schema'
+import { requestStatementAnalysis, type ClarityReport, type StatementInput } from './statement-analysis'
+import { requestStatementDrafts, type InterviewAnswers, type StatementDrafts } from './statement-drafting'
+
+/**
+ * Everything the app asks of whatever writes the profiles. Implementations
+ * must honour locks and `request.signal`, and return schema-valid results.
+ */
+export interface ProfileGenerationProvider {
+  name: GenerationProviderName
+  /** Shown in the UI so users know where their profiles come from. */
+  label: string
+  generateProfile(businessInfo: BusinessInfo, mode: ProfileMode, locks?: FieldLocks, request?: RequestOptions): Promise<CustomerProfile>
+  generatePersonaSet(businessInfo: BusinessInfo, mode: ProfileMode, count: number, request?: RequestOptions): Promise<GeneratedPersona[]>
+  regenerateSection<K extends ProfileSectionKey>(
+    businessInfo: BusinessInfo,
+    profile: CustomerProfile,
+    section: K,
+    locks?: FieldLocks,
+    request?: RequestOptions
+  ): Promise<CustomerProfile[K]>
+  refineProfile(
+    businessInfo: BusinessInfo,
+    profile: CustomerProfile,
+    history: RefinementMessage[],
+    instruction: string,
+    locks?: FieldLocks,
+    request?: RequestOptions
+  ): Promise<RefinementResponse>
+  analyzeStatements(statements: StatementInput, request?: RequestOptions): Promise<ClarityReport>
+  draftStatements(answers: InterviewAnswers, request?: RequestOptions): Promise<StatementDrafts>
+  explainProfile(
+    businessInfo: BusinessInfo,
+    profile: CustomerProfile,
+    paths?: ProfileFieldPath[],
+    request?: RequestOptions
+  ): Promise<ProfileRationales>
+  /** One anti-persona for all the given profiles, which share a mode. */
+  generateAntiPersona(businessInfo: BusinessInfo, profiles: CustomerProfile[], request?: RequestOptions): Promise<AntiPersona>
+}
+
+/** The default: profiles written by the Blink AI, through the given client's `ai`. */
+export function createBlinkGenerationProvider(client: ObjectGenerationClient): ProfileGenerationProvider {
+  const withClient = (request: RequestOptions = {}) => ({ ...request, client })
+  return {
+    name: 'blink',
+    label: 'Blink AI',
+    generateProfile: (businessInfo, mode, locks, request) => generateValidatedProfile(businessInfo, mode, locks, withClient(request)),
+    generatePersonaSet: (businessInfo, mode, count, request) => generatePersonaSet(businessInfo, mode, count, withClient(request)),
+    regenerateSection: (businessInfo, profile, section, locks, request) => regenerateProfileSection(businessInfo, profile, section, locks, withClient(request)),
+    refineProfile: (businessInfo, profile, history, instruction, locks, request) =>
+      requestProfileRefinement(businessInfo, profile, history, instruction, locks, withClient(request)),
+    analyzeStatements: (statements, request) => requestStatementAnalysis(statements, withClient(request)),
+    draftStatements: (answers, request) => requestStatementDrafts(answers, withClient(request)),
+    explainProfile: (businessInfo, profile, paths, request) => requestProfileRationales(businessInfo, profile, paths, withClient(request)),
+    generateAntiPersona: (businessInfo, profiles, request) => requestAntiPersona(businessInfo, profiles, withClient(request))
+  }
+}
+
+/**
+ * The provider picked by `name`, by default from `VITE_GENERATION_PROVIDER`.
+ * The Blink provider sends its requests through `client`, such as `blink.ai`.
+ */
+export function getGenerationProvider(name: GenerationProviderName = generationProviderName, client?: ObjectGenerationClient) {
+  if (name === 'local') return localGenerationProvider
+  if (!client) throw new Error('The blink provider needs an AI client, such as blink.ai')
+  return createBlinkGenerationProvider(client)
+}
@@ -0,0 +1,80 @@
+import toast from 'react-hot-toast'
+import { blink } from '../blink/client'
+import { Button } from '../components/ui/button'
+import { classifyGenerationError, type GenerationErrorKind } from './generation-errors'
+
+interface ErrorNotice {
+  title: string
+  description: string
+  action?: { label: string; run: () => void }
+}
+
+function describeError(kind: GenerationErrorKind, subject: string, retry?: () => void): ErrorNotice {
+  const retryAction = retry && { label: 'Retry', run: retry }
+  switch (kind) {
+    case 'auth':
+      return {
+        title: 'Your session has expired',
+        description: 'Sign in again to keep generating. Saved profiles are not affected.',
+        action: { label: 'Sign in', run: () => blink.auth.login(window.location.href) }
+      }
+    case 'rate-limit':
+      return {
+        title: 'Too many requests',
+        description: `The AI is busy right now. Wait a moment, then retry the ${subject}.`,
+        action: retryAction
+      }
+    case 'invalid-output':
+      return {
+        title: 'The AI returned an unusable answer',
+        description: `It still didn't match the expected format after several repairs. Trying the ${subject} again usually helps.`,
+        action: retry && { label: 'Try again', run: retry }
+      }
+    case 'network':
+      return {
+        title: 'Connection problem',
+        description: `The ${subject} timed out or the connection dropped. Check your internet connection and retry.`,
+        action: retryAction
+      }
+    default:
+      return {
+        title: `The ${subject} failed`,
+        description: 'Something unexpected went wrong. Please try again.',
+        action: retryAction
+      }
+  }
+}
+
+/**
+ * Shows a failed AI request as a toast with a recovery action that fits the
+ * kind of failure. Cancellations are the user's own doing and stay silent.
+ * `subject` names the request in messages, e.g. "profile generation".
+ */
+export function notifyGenerationError(error: unknown, subject: string, retry?: () => void) {
+  const kind = classifyGenerationError(error)
+  if (kind === 'cancelled') return
+
+  const { title, description, action } = describeError(kind, subject, retry)
+  // One toast per kind, so repeated failures replace each other instead of stacking
+  toast.error((t) => (
+    <div className="flex items-start gap-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium">{title}</p>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      {action && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="shrink-0"
+          onClick={() => {
+            toast.dismiss(t.id)
+            action.run()
+          }}
+        >
+          {action.label}
+        </Button>
+      )}
+    </div>
+  ), { id: `generation-error-${kind}`, duration: 8000 })
+}
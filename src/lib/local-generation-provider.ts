@@ -0,0 +1,547 @@
+import { GenerationCancelledError } from './generation-errors'
+import { getModeSections, getPresentFields, getProfileField, PROFILE_FIELD_PATHS, type ProfileFieldPath, type ProfileSectionKey } from './profile-fields'
+import { applyLocks, isLocked, locksForSection, type FieldLocks } from './profile-locks'
+import {
+  ANTI_PERSONAS,
+  ARCHETYPES,
+  COMPANY_TEMPLATES,
+  COMPANY_WORDS,
+  CUSTOMER_WORDS,
+  GENDERS,
+  LOCATIONS,
+  SHARED_GOALS,
+  SHARED_PAIN_POINTS,
+  TECH_STACK,
+  VAGUE_TERMS,
+  type Archetype,
+  type CompanyTemplate,
+  type SegmentTemplate
+} from './local-provider-templates'
+import type { GeneratedPersona, RequestOptions } from './profile-generation'
+import { getProfileMode, type ProfileMode } from './profile-mode'
+import { createRandom, hashString, pick, pickSome, type Random } from './seeded-random'
+import type { ProfileGenerationProvider } from './generation-provider'
+import { INPUT_LABELS } from './profile-rationale'
+import type { RefinementResponse } from './profile-refinement'
+import type { AntiPersona, BusinessInfo, CustomerProfile, FieldRationale, ProfilePatch, ProfileRationales } from './profile-schema'
+import type { ClarityDimension, StatementAnalysis } from './statement-analysis'
+import type { InterviewAnswers, StatementDrafts } from './statement-drafting'
+
+interface BusinessSignals {
+  archetype: Archetype
+  focus: string
+  ageRange?: string
+  gender?: string
+  location?: string
+  /** Company sizes the target market asks for, or all of them if it names none. */
+  companies: CompanyTemplate[]
+  /** The target-market wording each demographic hint was read from. */
+  quotes: Partial<Record<'ageRange' | 'gender' | 'location', string>>
+}
+
+/** Finds the closest archetype and any demographics spelled out in the target market. */
+function readSignals(businessInfo: BusinessInfo): BusinessSignals {
+  const text = Object.values(businessInfo).join(' ').toLowerCase()
+  const general = ARCHETYPES[ARCHETYPES.length - 1]
+  let archetype = general
+  let matched: string[] = []
+  for (const candidate of ARCHETYPES) {
+    const matches = candidate.keywords.filter(keyword => text.includes(keyword))
+    if (matches.length > matched.length) {
+      archetype = candidate
+      matched = matches
+    }
+  }
+
+  const target = businessInfo.targetMarket
+  const range = target.match(/(\d{2})s?\s*(?:-|–|to)\s*(\d{2})(s?)/i)
+  const decade = target.match(/\b(\d{2})s\b/i)
+  const ageRange = range
+    ? `${range[1]}-${Number(range[2]) + (range[3] ? 9 : 0)}`
+    : decade ? `${decade[1]}-${Number(decade[1]) + 9}` : undefined
+
+  const women = target.match(/\b(women|woman|female|mothers|moms|mums)\b/i)
+  const men = target.match(/\b(men|male|fathers|dads)\b/i)
+  const gender = women ? 'Predominantly women' : men ? 'Predominantly men' : undefined
+
+  const remote = target.match(/\b(remote|distributed|hybrid)\b/i)
+  const europe = target.match(/\b(europe|european)\b/i)
+  const local = target.match(/\blocal\b/i)
+  const location = remote
+    ? 'Remote and hybrid workers across several time zones'
+    : europe
+      ? 'Major cities across Europe'
+      : local ? 'Within easy travel distance of the business' : undefined
+
+  const sized = COMPANY_TEMPLATES.filter(company => company.pattern.test(target))
+
+  return {
+    archetype,
+    focus: matched[0] ?? 'service',
+    ageRange,
+    gender,
+    location,
+    companies: sized.length > 0 ? sized : COMPANY_TEMPLATES,
+    quotes: {
+      ageRange: (range ?? decade)?.[0],
+      gender: (women ?? men)?.[0],
+      location: (remote ?? europe ?? local)?.[0]
+    }
+  }
+}
+
+/**
+ * With `exactAgeHint`, an age range spelled out in the target market is used
+ * as it is; otherwise the segment's own range is narrowed to it, so the
+ * personas of a set still differ without contradicting the inputs.
+ */
+function buildProfile(signals: BusinessSignals, segment: SegmentTemplate, random: Random, mode: ProfileMode, exactAgeHint: boolean): CustomerProfile {
+  const { archetype, focus } = signals
+  const fill = (items: string[]) => items.map(item => item.replace('{focus}', focus))
+
+  const demographics = mode === 'b2c'
+    ? {
+        ageRange: exactAgeHint ? signals.ageRange ?? segment.ageRange : fitAgeRange(segment.ageRange, signals.ageRange),
+        gender: signals.gender ?? pick(random, GENDERS),
+        location: signals.location ?? pick(random, LOCATIONS),
+        income: segment.income,
+        education: segment.education
+      }
+    : undefined
+  const { buyingBehavior, ...shared } = {
+    psychographics: {
+      values: pickSome(random, archetype.values, 4),
+      interests: pickSome(random, archetype.interests, 4),
+      lifestyle: segment.lifestyle,
+      personality: segment.personality
+    },
+    painPoints: pickSome(random, fill([...archetype.painPoints, ...SHARED_PAIN_POINTS]), 4),
+    motivations: pickSome(random, archetype.motivations, 3),
+    goals: pickSome(random, fill([...archetype.goals, ...SHARED_GOALS]), 3),
+    communicationChannels: pickSome(random, archetype.channels, 4),
+    buyingBehavior: {
+      decisionFactors: pickSome(random, archetype.decisionFactors, 3),
+      purchaseProcess: pick(random, archetype.purchaseProcess),
+      budget: segment.budget
+    }
+  }
+  if (demographics) {
+    const profile = { demographics, ...shared, buyingBehavior }
+    return { ...profile, narrative: buildNarrative(segment.name, profile, random) }
+  }
+
+  const company = pick(random, signals.companies)
+  const profile = {
+    firmographics: {
+      companySize: company.companySize,
+      industry: pick(random, archetype.industries),
+      revenueBand: company.revenueBand,
+      techStack: pickSome(random, TECH_STACK, 4)
+    },
+    ...shared,
+    buyingCommittee: {
+      decisionMakers: company.decisionMakers,
+      members: company.members,
+      salesCycle: company.salesCycle
+    },
+    buyingBehavior
+  }
+  return { ...profile, narrative: buildNarrative(segment.name, profile, random) }
+}
+
+// Template values are sentence fragments, so they go after a colon or mid-sentence
+function lowerFirst(text: string) {
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
+
+/** Strings the profile's own values together, so the story agrees with the cards. */
+function buildNarrative(name: string, profile: CustomerProfile, random: Random): NonNullable<CustomerProfile['narrative']> {
+  const goal = lowerFirst(profile.goals[0])
+  return {
+    name,
+    quote: pick(random, [
+      `I just want to ${goal}.`,
+      `All I need is a way to ${goal}.`,
+      `If I could ${goal}, everything else would get easier.`
+    ]),
+    dayInTheLife: [
+      `A typical day for ${name}: ${lowerFirst(profile.psychographics.lifestyle)}.`,
+      `The same problem keeps coming up: ${lowerFirst(profile.painPoints[0])}.`,
+      `When they look for help, the first thing they check is ${lowerFirst(profile.buyingBehavior.decisionFactors[0])}.`,
+      `What keeps them going is the chance to ${lowerFirst(profile.motivations[0])}, and this year they want to ${goal}.`
+    ].join(' ')
+  }
+}
+
+function checkCancelled(request: RequestOptions) {
+  if (request.signal?.aborted) throw new GenerationCancelledError()
+}
+
+// Mimics a streamed response so the UI behaves the same as with a live model
+function emitSections(profile: CustomerProfile, request: RequestOptions) {
+  if (!request.onPartial) return
+  const partial: Partial<CustomerProfile> = {}
+  for (const { key } of getModeSections(getProfileMode(profile))) {
+    Object.assign(partial, { [key]: profile[key] })
+    request.onPartial({ ...partial })
+  }
+}
+
+function parseAgeRange(range: string): [number, number] | undefined {
+  const match = range.match(/(\d+)\D+(\d+)/)
+  return match ? [Number(match[1]), Number(match[2])] : undefined
+}
+
+function fitAgeRange(range: string, hint: string | undefined) {
+  const parsedHint = hint && parseAgeRange(hint)
+  if (!hint || !parsedHint) return range
+  const parsed = parseAgeRange(range)
+  if (!parsed) return hint
+  const low = Math.max(parsed[0], parsedHint[0])
+  const high = Math.min(parsed[1], parsedHint[1])
+  return low < high ? `${low}-${high}` : hint
+}
+
+// Keeps a spelled-out age hint from landing on, say, the retiree segment
+function segmentsForSignals(signals: BusinessSignals) {
+  const hint = signals.ageRange && parseAgeRange(signals.ageRange)
+  if (!hint) return signals.archetype.segments
+  const overlapping = signals.archetype.segments.filter(segment => {
+    const range = parseAgeRange(segment.ageRange)
+    return !range || (range[0] <= hint[1] && hint[0] <= range[1])
+  })
+  return overlapping.length > 0 ? overlapping : signals.archetype.segments
+}
+
+function shiftAgeRange(range: string, delta: number) {
+  const parsed = parseAgeRange(range)
+  if (!parsed) return range
+  return `${Math.max(18, parsed[0] + delta)}-${Math.max(18, parsed[1] + delta)}`
+}
+
+interface RefinementRule {
+  pattern: RegExp
+  summary: string
+  /** Set for rules that change fields only profiles of one mode have. */
+  mode?: ProfileMode
+  changes: (profile: CustomerProfile) => ProfilePatch
+}
+
+function moveCompanySize(profile: CustomerProfile, step: number): ProfilePatch {
+  const current = COMPANY_TEMPLATES.findIndex(company => company.companySize === profile.firmographics?.companySize)
+  const company = COMPANY_TEMPLATES[Math.min(COMPANY_TEMPLATES.length - 1, Math.max(0, (current < 0 ? 1 : current) + step))]
+  return [
+    { path: 'firmographics.companySize', value: company.companySize },
+    { path: 'firmographics.revenueBand', value: company.revenueBand },
+    { path: 'buyingCommittee.decisionMakers', value: company.decisionMakers },
+    { path: 'buyingCommittee.members', value: company.members },
+    { path: 'buyingCommittee.salesCycle', value: company.salesCycle }
+  ]
+}
+
+const REFINEMENT_RULES: RefinementRule[] = [
+  {
+    pattern: /budget|cheap|afford|price.sensitive|frugal/,
+    summary: 'made them more budget-conscious',
+    changes: (profile) => [
+      { path: 'buyingBehavior.budget', value: 'Tight; compares prices carefully and waits for offers' },
+      { path: 'buyingBehavior.decisionFactors', value: ['Price and value for money', ...profile.buyingBehavior.decisionFactors.filter(f => f !== 'Price and value for money')] }
+    ]
+  },
+  {
+    pattern: /premium|luxury|high.end|affluent|wealthy/,
+    summary: 'moved them to the premium end of the market',
+    changes: (profile) => [
+      ...(profile.demographics ? [{ path: 'demographics.income' as const, value: 'Top 20% of earners' }] : []),
+      { path: 'buyingBehavior.budget', value: 'Generous; pays more for quality and service' }
+    ]
+  },
+  {
+    pattern: /enterprise|larger|bigger|corporate/,
+    summary: 'moved them to larger companies',
+    mode: 'b2b',
+    changes: (profile) => moveCompanySize(profile, 1)
+  },
+  {
+    pattern: /smaller|small business|smb|startup/,
+    summary: 'moved them to smaller companies',
+    mode: 'b2b',
+    changes: (profile) => moveCompanySize(profile, -1)
+  },
+  {
+    pattern: /senior|older|experienced/,
+    summary: 'made them older and further into their career',
+    mode: 'b2c',
+    changes: (profile) => [{ path: 'demographics.ageRange', value: shiftAgeRange(profile.demographics!.ageRange, 10) }]
+  },
+  {
+    pattern: /younger|junior|gen z|student/,
+    summary: 'made them younger',
+    mode: 'b2c',
+    changes: (profile) => [{ path: 'demographics.ageRange', value: shiftAgeRange(profile.demographics!.ageRange, -8) }]
+  },
+  {
+    pattern: /europe|european/,
+    summary: 'focused on European customers',
+    mode: 'b2c',
+    changes: () => [{ path: 'demographics.location', value: 'Major cities across Europe (UK, Germany, Netherlands, Nordics)' }]
+  },
+  {
+    pattern: /north america|\busa?\b|canada|american/,
+    summary: 'focused on North American customers',
+    mode: 'b2c',
+    changes: () => [{ path: 'demographics.location', value: 'Cities across the United States and Canada' }]
+  },
+  {
+    pattern: /\b(women|female)\b/,
+    summary: 'focused on women',
+    mode: 'b2c',
+    changes: () => [{ path: 'demographics.gender', value: 'Predominantly women' }]
+  },
+  {
+    pattern: /\b(men|male)\b/,
+    summary: 'focused on men',
+    mode: 'b2c',
+    changes: () => [{ path: 'demographics.gender', value: 'Predominantly men' }]
+  }
+]
+
+const UNDERSTOOD_CHANGES: Record<ProfileMode, string> = {
+  b2c: 'budget, premium, age or seniority, region and gender',
+  b2b: 'budget, premium and company size'
+}
+
+function clampScore(score: number) {
+  return Math.min(10, Math.max(1, Math.round(score)))
+}
+
+/** Rule-based stand-in for the AI review: flags known vague terms and scores by simple text signals. */
+function analyzeStatement(statement: string): StatementAnalysis {
+  const found = VAGUE_TERMS.flatMap(term => [...statement.matchAll(term.pattern)].map(match => ({ term, phrase: match[0] })))
+  const penalty = (dimension: ClarityDimension) => found.filter(({ term }) => term.dimension === dimension).length * 1.5
+
+  const words = statement.trim().split(/\s+/).filter(Boolean).length
+  const customerWords = statement.match(CUSTOMER_WORDS)?.length ?? 0
+  const companyWords = statement.match(COMPANY_WORDS)?.length ?? 0
+
+  const rewrite = VAGUE_TERMS.reduce(
+    (text, term) => term.replacement ? text.replace(term.pattern, term.replacement) : text,
+    statement.trim()
+  )
+
+  return {
+    scores: {
+      clarity: clampScore(8 - penalty('clarity') - (words > 30 ? 2 : 0) - (words < 6 ? 2 : 0)),
+      specificity: clampScore(4 + (/\d/.test(statement) ? 2 : 0) + (/\bfor\b/i.test(statement) ? 1 : 0) + (words >= 12 ? 1 : 0) - penalty('specificity')),
+      customerFocus: clampScore(4 + Math.min(customerWords, 2) * 2 - (companyWords > customerWords ? 1 : 0) - penalty('customerFocus'))
+    },
+    vaguePhrases: found.map(({ term, phrase }) => ({ phrase, reason: term.reason })),
+    rewrite
+  }
+}
+
+// Interview answers are dropped into sentences, so they lose their own capital and full stop
+function asPhrase(answer: string) {
+  const text = answer.trim().replace(/[.!]+$/, '')
+  return text.charAt(0).toLowerCase() + text.slice(1)
+}
+
+function asSentence(text: string) {
+  const trimmed = text.trim().replace(/[.!]*$/, '.')
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1)
+}
+
+function draftStatements(answers: InterviewAnswers): StatementDrafts {
+  const offering = asPhrase(answers.offering)
+  const customers = asPhrase(answers.customers)
+  const problem = asPhrase(answers.problem)
+  const difference = asPhrase(answers.difference)
+  const origin = asPhrase(answers.origin)
+  const future = asPhrase(answers.future)
+
+  return {
+    visions: [
+      { text: asSentence(`a world where ${customers} no longer have to settle for ${problem}`), angle: 'Customer outcome' },
+      { text: asSentence(`to be the first name ${customers} think of for ${offering}`), angle: 'Category leadership' },
+      future
+        ? { text: asSentence(`a future where ${future}`), angle: 'Long-term change' }
+        : { text: asSentence(`to change how ${customers} think about ${offering}`), angle: 'Changing expectations' }
+    ],
+    missions: [
+      { text: asSentence(`we help ${customers} move past ${problem} with ${offering}`), angle: 'Problem solved' },
+      difference
+        ? { text: asSentence(`we make ${offering} for ${customers}, and ${difference}`), angle: 'What sets us apart' }
+        : { text: asSentence(`we give ${customers} ${offering} that beats ${problem}`), angle: 'Better alternative' },
+      origin
+        ? { text: asSentence(`${origin}, so we bring ${offering} to ${customers}`), angle: 'Founding purpose' }
+        : { text: asSentence(`every day, we give ${customers} ${offering} they are proud to choose`), angle: 'Everyday commitment' }
+    ]
+  }
+}
+
+// Shorter words (and, with, their) match almost anything
+const KEYWORD_LENGTH = 5
+
+function keywordStem(word: string) {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '')
+  return letters.length >= KEYWORD_LENGTH ? letters.slice(0, KEYWORD_LENGTH) : undefined
+}
+
+/** Quotes the first input wording that shares a keyword with the value, with a couple of words either side. */
+function findSources(businessInfo: BusinessInfo, value: string): FieldRationale['sources'] {
+  const stems = new Set(value.split(/\s+/).map(keywordStem).filter(Boolean))
+  return (Object.keys(INPUT_LABELS) as (keyof BusinessInfo)[]).flatMap(input => {
+    const text = businessInfo[input]
+    const words = [...text.matchAll(/\S+/g)]
+    const index = words.findIndex(word => stems.has(keywordStem(word[0])))
+    if (index < 0) return []
+    const first = words[Math.max(0, index - 2)]
+    const last = words[Math.min(words.length - 1, index + 2)]
+    const quote = text.slice(first.index, last.index + last[0].length).replace(/[.,;:!?]+$/, '')
+    return [{ input, quote }]
+  })
+}
+
+/** Keyword-overlap stand-in for the AI explanation; confidence grows with the number of inputs that agree. */
+function explainProfile(businessInfo: BusinessInfo, profile: CustomerProfile, paths: ProfileFieldPath[]): ProfileRationales {
+  const signals = readSignals(businessInfo)
+  const explained = PROFILE_FIELD_PATHS.filter(path => paths.includes(path)).map(path => {
+    const value = getProfileField(profile, path)
+    const hint = path.startsWith('demographics.') ? path.slice('demographics.'.length) as keyof BusinessSignals['quotes'] : undefined
+    const quote = hint && signals[hint] === value ? signals.quotes[hint] : undefined
+    if (quote) {
+      const rationale: FieldRationale = {
+        rationale: `Read straight from the target market, which mentions "${quote}".`,
+        confidence: 'high',
+        sources: [{ input: 'targetMarket', quote }]
+      }
+      return [path, rationale]
+    }
+
+    const sources = findSources(businessInfo, Array.isArray(value) ? value.join(' ') : value)
+    const rationale: FieldRationale = sources.length > 0
+      ? {
+          rationale: `Chosen from the local ${signals.archetype.key} templates because it echoes wording in the ${sources.map(source => INPUT_LABELS[source.input].toLowerCase()).join(', ').replace(/, ([^,]*)$/, ' and $1')}.`,
+          confidence: sources.length >= 2 ? 'high' : 'medium',
+          sources
+        }
+      : {
+          rationale: `A typical value from the local ${signals.archetype.key} templates; nothing in the inputs points to it directly.`,
+          confidence: 'low',
+          sources: []
+        }
+    return [path, rationale]
+  })
+  return Object.fromEntries(explained)
+}
+
+/**
+ * Builds plausible profiles from the templates in `local-provider-templates.ts`,
+ * choosing an archetype from keywords in the inputs. The same inputs always
+ * give the same result and nothing leaves the browser, which makes it
+ * suitable for demos, tests and offline use.
+ */
+export const localGenerationProvider: ProfileGenerationProvider = {
+  name: 'local',
+  label: 'Local templates',
+
+  async generateProfile(businessInfo, mode, locks = {}, request = {}) {
+    checkCancelled(request)
+    const signals = readSignals(businessInfo)
+    const seed = hashString(JSON.stringify(businessInfo))
+    const segments = segmentsForSignals(signals)
+    const segment = segments[seed % segments.length]
+    const profile = applyLocks(buildProfile(signals, segment, createRandom(seed), mode, true), locks)
+    emitSections(profile, request)
+    return profile
+  },
+
+  async generatePersonaSet(businessInfo, mode, count, request = {}) {
+    checkCancelled(request)
+    const signals = readSignals(businessInfo)
+    const seedKey = JSON.stringify(businessInfo)
+    const random = createRandom(hashString(seedKey))
+    // Segments that fit an age hint come first; the rest only make up the numbers
+    const preferred = pickSome(random, segmentsForSignals(signals), count)
+    const others = signals.archetype.segments.filter(segment => !preferred.includes(segment))
+    const segments = [...preferred, ...pickSome(random, others, count - preferred.length)]
+
+    const personas: GeneratedPersona[] = segments.map(segment => ({
+      segment: { name: segment.name, label: segment.label, differentiator: segment.differentiator },
+      customerProfile: buildProfile(signals, segment, createRandom(hashString(`${seedKey}|${segment.name}`)), mode, false)
+    }))
+    request.onPartial?.({ personas })
+    return personas
+  },
+
+  async regenerateSection(businessInfo, profile, section, locks = {}, request = {}) {
+    checkCancelled(request)
+    const signals = readSignals(businessInfo)
+    const seedKey = `${JSON.stringify(businessInfo)}|${section}|${JSON.stringify(profile[section])}`
+
+    // Try a few seeds so the new section actually differs from the current one
+    let candidate = profile
+    for (let salt = 0; salt < 5; salt++) {
+      const random = createRandom(hashString(`${seedKey}|${salt}`))
+      const segment = pick(random, signals.archetype.segments)
+      // The story retells the profile, so it is rewritten from the current one, keeping the name
+      candidate = section === 'narrative'
+        ? { ...profile, narrative: buildNarrative(profile.narrative?.name ?? segment.name, profile, random) }
+        : buildProfile(signals, segment, random, getProfileMode(profile), false)
+      if (JSON.stringify(candidate[section]) !== JSON.stringify(profile[section])) break
+    }
+
+    const merged = applyLocks({ ...profile, [section]: candidate[section] }, locksForSection(locks, section as ProfileSectionKey))
+    return merged[section]
+  },
+
+  async refineProfile(_businessInfo, profile, _history, instruction, locks: FieldLocks = {}, request = {}): Promise<RefinementResponse> {
+    checkCancelled(request)
+    const text = instruction.toLowerCase()
+    const mode = getProfileMode(profile)
+    const rules = REFINEMENT_RULES.filter(rule => (!rule.mode || rule.mode === mode) && rule.pattern.test(text))
+    if (rules.length === 0) {
+      return {
+        reply: `The local provider only understands a few kinds of change: ${UNDERSTOOD_CHANGES[mode]}. Switch to the Blink provider for free-form refinements.`,
+        changes: []
+      }
+    }
+
+    const changes = rules
+      .flatMap(rule => rule.changes(profile))
+      .filter(change => Array.isArray(change.value) || !isLocked(locks, change.path))
+      .map(change => {
+        const locked = locks[change.path]
+        if (!Array.isArray(locked) || !Array.isArray(change.value)) return change
+        const value = change.value
+        return { ...change, value: [...locked.filter(item => !value.includes(item)), ...value] }
+      })
+
+    return { reply: `I ${rules.map(rule => rule.summary).join(', and ')}.`, changes }
+  },
+
+  async analyzeStatements(statements, request = {}) {
+    checkCancelled(request)
+    return {
+      visionStatement: analyzeStatement(statements.visionStatement),
+      missionStatement: analyzeStatement(statements.missionStatement)
+    }
+  },
+
+  async draftStatements(answers, request = {}) {
+    checkCancelled(request)
+    return draftStatements(answers)
+  },
+
+  async explainProfile(businessInfo, profile, paths = getPresentFields(profile).map(field => field.path), request = {}) {
+    checkCancelled(request)
+    return explainProfile(businessInfo, profile, paths)
+  },
+
+  async generateAntiPersona(businessInfo, profiles, request = {}): Promise<AntiPersona> {
+    checkCancelled(request)
+    const { focus } = readSignals(businessInfo)
+    const template = pick(createRandom(hashString(JSON.stringify(businessInfo))), ANTI_PERSONAS[getProfileMode(profiles[0])])
+    return { ...template, description: template.description.replace('{focus}', focus) }
+  }
+}
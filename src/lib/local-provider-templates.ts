@@ -0,0 +1,326 @@
+import type { ProfileMode } from './profile-mode'
+import type { AntiPersona } from './profile-schema'
+import type { ClarityDimension } from './statement-analysis'
+
+/**
+ * Source material for the local provider. Each archetype describes one kind
+ * of business: the keywords that identify it, the customer segments it
+ * typically serves, and pools of plausible values for the list fields.
+ * `{focus}` is replaced with the keyword that matched the business. B2B
+ * profiles also draw a company from `COMPANY_TEMPLATES`.
+ */
+
+export interface SegmentTemplate {
+  name: string
+  label: string
+  differentiator: string
+  ageRange: string
+  income: string
+  education: string
+  lifestyle: string
+  personality: string
+  budget: string
+}
+
+export interface Archetype {
+  key: string
+  keywords: string[]
+  /** Industries its business customers work in. */
+  industries: string[]
+  segments: SegmentTemplate[]
+  values: string[]
+  interests: string[]
+  painPoints: string[]
+  motivations: string[]
+  /** Read after both "I want to" and "they want to", so written without pronouns. */
+  goals: string[]
+  channels: string[]
+  decisionFactors: string[]
+  purchaseProcess: string[]
+}
+
+export const GENDERS = ['All genders, slightly more women', 'All genders, slightly more men', 'Mixed, no strong skew']
+
+export const LOCATIONS = [
+  'Urban and suburban areas in English-speaking countries',
+  'Major cities in North America and Western Europe',
+  'Mid-sized cities and their suburbs'
+]
+
+/** Typical companies at three sizes, with who buys for them and how long it takes. */
+export interface CompanyTemplate {
+  /** Target-market wording that asks for companies of this size. */
+  pattern: RegExp
+  companySize: string
+  revenueBand: string
+  salesCycle: string
+  decisionMakers: string[]
+  members: string[]
+}
+
+export const COMPANY_TEMPLATES: CompanyTemplate[] = [
+  {
+    pattern: /\b(small|smbs?|smes?|startups?)\b/i,
+    companySize: '10-50 employees',
+    revenueBand: '$1M-$10M',
+    salesCycle: '2-6 weeks',
+    decisionMakers: ['Founder or CEO', 'Head of Operations'],
+    members: [
+      'Founder: return on the spend and how quickly the team takes to it',
+      'Operations lead: setup effort and fit with how the team works today',
+      'Day-to-day user: whether it saves them time from the first week'
+    ]
+  },
+  {
+    pattern: /\b(medium|mid-?sized?|mid-?market|smbs?|smes?|scale-?ups?)\b/i,
+    companySize: '50-500 employees',
+    revenueBand: '$10M-$100M',
+    salesCycle: '1-3 months',
+    decisionMakers: ['Head of the buying department', 'Finance Director'],
+    members: [
+      'Department head: measurable impact on the team\'s targets',
+      'Finance: total cost, contract terms and payback period',
+      'IT manager: security, single sign-on and integrations',
+      'Team lead: training effort and disruption during rollout'
+    ]
+  },
+  {
+    pattern: /\b(enterprises?|corporates?|corporations?|large)\b/i,
+    companySize: '500+ employees',
+    revenueBand: '$100M+',
+    salesCycle: '3-9 months',
+    decisionMakers: ['Executive sponsor', 'VP of the buying department', 'Head of Procurement'],
+    members: [
+      'Executive sponsor: strategic fit and the risk to their own reputation',
+      'Procurement: vendor due diligence and negotiated pricing',
+      'IT security: compliance, data residency and access controls',
+      'Legal: liability, data processing terms and contract length',
+      'End-user champion: whether colleagues will actually use it'
+    ]
+  }
+]
+
+export const TECH_STACK = ['Google Workspace', 'Microsoft 365', 'Slack', 'HubSpot', 'Salesforce', 'Jira', 'Notion', 'QuickBooks', 'Shopify', 'Zoom']
+
+export const SHARED_PAIN_POINTS = [
+  'Hard to tell which {focus} providers are worth the money',
+  'Has been burned before by {focus} that over-promised'
+]
+
+// Written without pronouns, like the archetypes' goals
+export const SHARED_GOALS = [
+  'Get {focus} results without a steep learning curve',
+  'Find a {focus} partner to stick with long term'
+]
+
+/** Poor-fit customers for each mode; `{focus}` is filled in as for the archetypes. */
+export const ANTI_PERSONAS: Record<ProfileMode, AntiPersona[]> = {
+  b2c: [
+    {
+      name: 'Bargain-Hunting Ben',
+      description: 'Shops around for the cheapest {focus} they can find and signs up whenever there is a discount. Compares every offer line by line and rarely stays past the first deal.',
+      appeal: 'Signs up quickly and in large numbers whenever there is a promotion, so campaigns look like a success.',
+      reasons: ['Leaves as soon as the discount ends', 'Costs more to win than they ever pay', 'Pushes for refunds and exceptions'],
+      disqualifyingSignals: ['Only responds to offers and coupon codes', 'Asks about cancellation before asking what is included', 'Has tried several competitors in the past year'],
+      redFlagPhrases: ['Is there a discount code?', 'I can get it cheaper elsewhere.', 'Can I cancel any time?']
+    },
+    {
+      name: 'Quick-Fix Quinn',
+      description: 'Wants {focus} to solve everything straight away without changing anything on their side. Enthusiastic at the start and disappointed soon after.',
+      appeal: 'Very keen on the first call and often ready to pay for the biggest package.',
+      reasons: ['Expects results the business cannot promise', 'Does not put in the effort the results depend on', 'Blames the business when progress is slow'],
+      disqualifyingSignals: ['Asks how fast results are guaranteed', 'Has tried many similar products and dropped them all', 'Skips the questions about their own situation'],
+      redFlagPhrases: ['I just need this sorted by next week.', 'Nothing else has worked for me.', "I don't have time for all that."]
+    },
+    {
+      name: 'Endless-Questions Elliot',
+      description: 'Researches {focus} for months, asks for free advice and sample after sample, and keeps putting off the decision.',
+      appeal: 'Highly engaged: opens every email, attends every free event and asks thoughtful questions.',
+      reasons: ['Takes up a lot of time without buying', 'Treats free content as the product', 'Rarely refers anyone who buys'],
+      disqualifyingSignals: ['Has been on the mailing list for a long time without buying', 'Asks for one more free trial or consultation', 'Cannot say when they would decide'],
+      redFlagPhrases: ['Can you just send me a few more examples?', "I'm still weighing up my options.", 'Let me think about it for a few more months.']
+    }
+  ],
+  b2b: [
+    {
+      name: 'Enterprise-Wishlist Ellen',
+      description: 'A large company that wants {focus} rebuilt around its own processes. Brings a long requirements list, a procurement team and a legal review.',
+      appeal: 'A famous logo and a big contract value that would look great in the pipeline.',
+      reasons: ['Needs custom work the business does not offer', 'The sales cycle runs for many months and often stalls', 'Support demands outgrow the contract value'],
+      disqualifyingSignals: ['Sends a request for proposal with dozens of mandatory features', 'Insists on their own contract terms and security questionnaire', 'No one on their side owns the project'],
+      redFlagPhrases: ['We will need a few customisations first.', 'Procurement will be in touch about the terms.', 'Can you match this feature from our current vendor?']
+    },
+    {
+      name: 'Pilot-Forever Pete',
+      description: 'A company that runs pilot after pilot of {focus} without a budget or a sponsor to take it further.',
+      appeal: 'Says yes to a trial quickly and lets the whole team try it.',
+      reasons: ['Has no budget set aside to buy', 'Decisions are stuck with someone who is never in the room', 'Uses the pilot to build a case for a cheaper option'],
+      disqualifyingSignals: ['Cannot name who signs off on the purchase', 'Asks to extend the trial more than once', 'No problem they need to solve this quarter'],
+      redFlagPhrases: ["Let's start with a free pilot and see.", "Budget is next year's problem.", "I'll need to run it past a few more people."]
+    },
+    {
+      name: 'Price-Squeeze Priya',
+      description: 'A small company that buys {focus} purely on price and treats the business as interchangeable with any other supplier.',
+      appeal: 'Decides fast and signs without a long review.',
+      reasons: ['Negotiates margins down to nothing', 'Switches supplier at the first cheaper quote', 'Expects enterprise-level service at the lowest price'],
+      disqualifyingSignals: ['Opens with the price before the problem', 'Asks for discounts in exchange for a testimonial', 'Is comparing many suppliers on a spreadsheet'],
+      redFlagPhrases: ["What's the best price you can do?", 'Your competitor quoted us half that.', 'We just need the basic version.']
+    }
+  ]
+}
+
+/**
+ * Wording the local clarity check flags. Each match lowers one score, and
+ * the suggested rewrite swaps it for `replacement`, a prompt for the user to
+ * fill in; terms without one are kept as they are.
+ */
+export interface VagueTerm {
+  pattern: RegExp
+  reason: string
+  dimension: ClarityDimension
+  replacement?: string
+}
+
+export const VAGUE_TERMS: VagueTerm[] = [
+  { pattern: /\b(?:worldwide|globally|around the world|across the world)\b/gi, reason: 'Names no market you can reach first', dimension: 'specificity', replacement: 'in [your first market]' },
+  { pattern: /\b(?:everyone|everybody|anyone|all people)\b/gi, reason: "Doesn't say who the customer is", dimension: 'customerFocus', replacement: '[your core customers]' },
+  { pattern: /\b(?:go-to|leading|world-class|best-in-class|premier|number one)\b/gi, reason: "A claim customers can't check; say what you are known for instead", dimension: 'clarity', replacement: '[what you are known for]' },
+  { pattern: /\b(?:innovative|cutting-edge|next-generation|revolutionary|disruptive)\b/gi, reason: "A buzzword that doesn't describe anything concrete", dimension: 'clarity', replacement: '[which kind of]' },
+  { pattern: /\b(?:revolutionize|revolutionise|disrupt)\b/gi, reason: "Doesn't say what actually changes", dimension: 'clarity', replacement: '[measurably improve]' },
+  { pattern: /\b(?:solutions|offerings)\b/gi, reason: "Doesn't say what you actually provide", dimension: 'specificity', replacement: '[what you provide]' },
+  { pattern: /\b(?:empower|inspire|transform|enable)s?\b/gi, reason: "Describes your intent, not what changes for the customer", dimension: 'customerFocus' },
+  { pattern: /\b(?:quality|excellence|best)\b/gi, reason: 'Every business claims this; say how it shows', dimension: 'specificity' }
+]
+
+export const CUSTOMER_WORDS = /\b(?:customers?|clients?|you|your|people|teams|families|businesses|owners|professionals|individuals|members|students|parents)\b/gi
+
+export const COMPANY_WORDS = /\b(?:we|our|us)\b/gi
+
+export const ARCHETYPES: Archetype[] = [
+  {
+    key: 'creative',
+    keywords: ['design', 'brand', 'branding', 'creative', 'agency', 'visual', 'marketing', 'logo', 'website', 'photography'],
+    industries: ['Technology startups', 'Professional services', 'Consumer brands', 'Hospitality'],
+    segments: [
+      { name: 'Startup Sam', label: 'Early-stage founders', differentiator: 'Needs a brand from scratch on a tight budget and moves fast.', ageRange: '25-35', income: '$50,000-$90,000', education: "Bachelor's degree", lifestyle: 'Long hours building the business, mostly remote', personality: 'Ambitious, impatient, open to bold ideas', budget: '$2,000-$8,000 per project' },
+      { name: 'Growing Grace', label: 'Scaling small businesses', differentiator: 'Already has customers and wants a brand that looks as established as the business is.', ageRange: '32-48', income: '$80,000-$150,000', education: "Bachelor's or MBA", lifestyle: 'Juggles operations and growth, values predictable partners', personality: 'Pragmatic, detail-oriented, risk-aware', budget: '$8,000-$25,000 per engagement' },
+      { name: 'Marketing Mia', label: 'In-house marketing leads', differentiator: 'Buys on behalf of a company and needs work that survives internal review.', ageRange: '28-42', income: '$70,000-$120,000', education: "Bachelor's in marketing or communications", lifestyle: 'Deadline-driven, manages several agencies at once', personality: 'Organised, brand-conscious, politically savvy', budget: 'Quarterly budget of $10,000-$40,000' },
+      { name: 'Solo Sofia', label: 'Freelancers and solopreneurs', differentiator: 'Is the brand; wants something personal that they can maintain alone.', ageRange: '26-40', income: '$40,000-$80,000', education: 'Mixed, often self-taught', lifestyle: 'Flexible schedule, works from home or co-working spaces', personality: 'Independent, creative, cost-conscious', budget: '$500-$3,000' },
+      { name: 'Rebrand Rob', label: 'Established businesses refreshing their image', differentiator: 'Has an outdated brand and worries about alienating loyal customers.', ageRange: '45-60', income: '$100,000+', education: "Bachelor's degree", lifestyle: 'Settled, community-minded, time-poor', personality: 'Cautious, loyal, proud of the business history', budget: '$15,000-$50,000' },
+      { name: 'Nonprofit Nadia', label: 'Mission-driven organisations', differentiator: 'Needs to inspire donors and volunteers with very limited funds.', ageRange: '30-55', income: '$45,000-$75,000', education: "Master's degree common", lifestyle: 'Purpose-driven, stretched across many roles', personality: 'Idealistic, collaborative, frugal', budget: '$1,500-$10,000, often grant-funded' }
+    ],
+    values: ['Authenticity', 'Quality craftsmanship', 'Standing out', 'Clear communication', 'Creativity', 'Professionalism', 'Consistency'],
+    interests: ['Design trends', 'Entrepreneurship podcasts', 'Social media marketing', 'Typography', 'Startup communities', 'Photography', 'Case studies'],
+    painPoints: ['Brand looks amateur next to competitors', 'Past designers missed deadlines', 'Unclear pricing and scope creep', 'Inconsistent look across channels', 'No time to manage the creative process'],
+    motivations: ['Make a strong first impression', 'Look credible to investors and clients', 'Attract better-paying customers', 'Feel proud showing the brand'],
+    goals: ['Launch a cohesive brand identity', 'Increase conversion on the website', 'Build name recognition in the niche', 'Have assets the team can reuse'],
+    channels: ['Instagram', 'LinkedIn', 'Email newsletters', 'Referrals', 'Behance and Dribbble', 'Industry events'],
+    decisionFactors: ['Portfolio quality', 'Understanding of their industry', 'Clear pricing', 'Turnaround time', 'Personal chemistry'],
+    purchaseProcess: ['Browses portfolios, shortlists 2-3 studios, books discovery calls and decides after a proposal', 'Asks peers for referrals, then compares proposals on scope and price']
+  },
+  {
+    key: 'wellness',
+    keywords: ['wellness', 'coach', 'coaching', 'health', 'mindfulness', 'fitness', 'nutrition', 'yoga', 'stress', 'therapy', 'holistic'],
+    industries: ['Professional services', 'Technology', 'Financial services', 'Healthcare'],
+    segments: [
+      { name: 'Burned-out Beth', label: 'Overstretched professionals', differentiator: 'Comes in at a breaking point and wants fast, practical relief.', ageRange: '30-45', income: '$70,000-$130,000', education: "Bachelor's or higher", lifestyle: 'Demanding job, little time for self-care', personality: 'Driven, perfectionist, sceptical of fluff', budget: '$150-$400 per month' },
+      { name: 'Transition Tara', label: 'People in life transitions', differentiator: 'Going through a divorce, career change or empty nest and wants direction.', ageRange: '38-55', income: '$55,000-$100,000', education: 'Mixed', lifestyle: 'Re-evaluating routines and priorities', personality: 'Reflective, hopeful, a little anxious', budget: '$100-$300 per month' },
+      { name: 'Wellness Will', label: 'Health optimisers', differentiator: 'Already active and curious; looks for the next level rather than a fix.', ageRange: '25-40', income: '$60,000-$110,000', education: "Bachelor's degree", lifestyle: 'Tracks sleep and workouts, follows health content', personality: 'Curious, data-minded, disciplined', budget: '$50-$200 per month' },
+      { name: 'New-parent Nina', label: 'Parents of young children', differentiator: 'Has almost no free time and needs support that fits around family life.', ageRange: '28-40', income: '$50,000-$100,000', education: "Bachelor's degree", lifestyle: 'Sleep-deprived, schedule built around kids', personality: 'Caring, self-sacrificing, time-starved', budget: '$30-$120 per month' },
+      { name: 'Retiree Ray', label: 'Active retirees', differentiator: 'Has time and money and wants to stay healthy and connected.', ageRange: '60-72', income: '$40,000-$80,000 (pension and savings)', education: 'Mixed', lifestyle: 'Flexible days, values community activities', personality: 'Steady, sociable, loyal once trust is earned', budget: '$80-$250 per month' },
+      { name: 'Team-lead Theo', label: 'Employers buying for their teams', differentiator: 'Buys wellbeing programmes for staff and cares about measurable outcomes.', ageRange: '35-50', income: '$90,000-$160,000', education: "Bachelor's or MBA", lifestyle: 'Busy manager responsible for team morale', personality: 'Results-focused, empathetic, budget-aware', budget: '$2,000-$15,000 per programme' }
+    ],
+    values: ['Balance', 'Personal growth', 'Authenticity', 'Health', 'Self-compassion', 'Family', 'Mindfulness'],
+    interests: ['Meditation apps', 'Healthy cooking', 'Self-help books', 'Yoga', 'Podcasts on psychology', 'Outdoor walks', 'Journaling'],
+    painPoints: ['Constant stress and poor sleep', 'Tried apps and books but nothing stuck', 'Feels guilty taking time for themselves', 'Overwhelmed by conflicting health advice', 'Lack of accountability'],
+    motivations: ['Feel in control again', 'Have more energy for family', 'Be a better version of themselves', 'Prevent future health problems'],
+    goals: ['Build a sustainable self-care routine', 'Reduce stress levels', 'Improve sleep and energy', 'Reconnect with what matters most'],
+    channels: ['Instagram', 'Podcasts', 'Email newsletters', 'Word of mouth', 'Local community groups', 'YouTube'],
+    decisionFactors: ['Trust and rapport with the coach', 'Testimonials from similar people', 'Flexible scheduling', 'Price per session', 'Credentials'],
+    purchaseProcess: ['Follows for a while on social media, joins a free session, then books a package', 'Gets a recommendation from a friend and books an intro call']
+  },
+  {
+    key: 'software',
+    keywords: ['software', 'saas', 'platform', 'app', 'cloud', 'productivity', 'collaboration', 'project management', 'tool', 'integration', 'tech'],
+    industries: ['Software and IT services', 'Marketing agencies', 'Professional services', 'E-commerce'],
+    segments: [
+      { name: 'Project-manager Priya', label: 'Team leads and project managers', differentiator: 'Owns delivery and wants visibility without chasing people.', ageRange: '28-42', income: '$75,000-$120,000', education: "Bachelor's degree, often certified (PMP, Scrum)", lifestyle: 'Back-to-back meetings, lives in their tools', personality: 'Organised, process-driven, pragmatic', budget: '$10-$25 per user per month' },
+      { name: 'Founder Felix', label: 'Startup founders', differentiator: 'Chooses tools for a tiny team and will switch quickly if something is faster.', ageRange: '25-38', income: '$60,000-$150,000', education: "Bachelor's in a technical field", lifestyle: 'Always on, experiments with new tools', personality: 'Fast-moving, opinionated, early adopter', budget: 'Free tier first, then $50-$300 per month' },
+      { name: 'Ops-director Olivia', label: 'Operations leaders at SMBs', differentiator: 'Standardises tools across departments and cares about security and support.', ageRange: '35-50', income: '$100,000-$160,000', education: "Bachelor's or MBA", lifestyle: 'Balances many stakeholders, plans by the quarter', personality: 'Methodical, risk-averse, consensus builder', budget: '$5,000-$30,000 per year' },
+      { name: 'Remote Ravi', label: 'Distributed teams', differentiator: 'Works across time zones and needs async collaboration above all.', ageRange: '26-40', income: '$70,000-$130,000', education: "Bachelor's degree", lifestyle: 'Works from home, flexible hours', personality: 'Self-directed, communicative, tool-savvy', budget: '$8-$20 per user per month' },
+      { name: 'Agency Alex', label: 'Agencies serving clients', differentiator: 'Needs to share progress with clients and track billable work.', ageRange: '28-45', income: '$65,000-$120,000', education: 'Mixed, creative or business backgrounds', lifestyle: 'Juggles many client projects at once', personality: 'Client-focused, practical, deadline-driven', budget: '$100-$500 per month' },
+      { name: 'IT-admin Ian', label: 'IT administrators', differentiator: 'Does not use the tool daily but decides whether it can be rolled out.', ageRange: '30-50', income: '$70,000-$110,000', education: 'Technical degree or certifications', lifestyle: 'Handles tickets and vendor reviews', personality: 'Cautious, thorough, allergic to shadow IT', budget: 'Part of an annual software budget' }
+    ],
+    values: ['Efficiency', 'Transparency', 'Simplicity', 'Reliability', 'Autonomy', 'Data-driven decisions', 'Work-life balance'],
+    interests: ['Productivity hacks', 'Remote work', 'Tech news', 'Automation', 'Leadership content', 'Startup culture', 'No-code tools'],
+    painPoints: ['Information scattered across too many tools', 'Status meetings eat the week', 'Hard to see who is working on what', 'Onboarding new tools is painful for the team', 'Integrations break or are missing'],
+    motivations: ['Ship projects on time', 'Reduce busywork', 'Look good to leadership', 'Keep the team happy and focused'],
+    goals: ['Centralise team communication', 'Cut time spent on status updates', 'Get reliable reporting', 'Scale processes as the team grows'],
+    channels: ['LinkedIn', 'Product Hunt', 'G2 and Capterra reviews', 'YouTube tutorials', 'Newsletters', 'Slack communities'],
+    decisionFactors: ['Ease of use', 'Integrations with existing tools', 'Per-seat price', 'Security and compliance', 'Quality of support'],
+    purchaseProcess: ['Signs up for a free trial, invites a few teammates, then upgrades when limits are hit', 'Compares reviews, runs a pilot with one team and gets sign-off from finance']
+  },
+  {
+    key: 'retail',
+    keywords: ['shop', 'store', 'ecommerce', 'e-commerce', 'products', 'fashion', 'handmade', 'boutique', 'clothing', 'jewelry', 'food', 'cafe', 'coffee', 'bakery', 'restaurant'],
+    industries: ['Independent retail', 'Hospitality and cafes', 'Corporate gifting', 'Events'],
+    segments: [
+      { name: 'Conscious Chloe', label: 'Values-driven shoppers', differentiator: 'Buys from brands whose ethics match hers and will pay more for it.', ageRange: '25-38', income: '$50,000-$90,000', education: "Bachelor's degree", lifestyle: 'Urban, active on social media, shops small', personality: 'Principled, curious, vocal', budget: '$50-$150 per order' },
+      { name: 'Gift-giver Gary', label: 'Gift buyers', differentiator: 'Shops for other people, usually around occasions and deadlines.', ageRange: '30-55', income: '$60,000-$110,000', education: 'Mixed', lifestyle: 'Busy, buys in bursts around holidays', personality: 'Thoughtful, time-pressed, wants reassurance', budget: '$40-$120 per gift' },
+      { name: 'Bargain Bella', label: 'Deal hunters', differentiator: 'Loves the product category but waits for sales and bundles.', ageRange: '20-35', income: '$30,000-$60,000', education: 'Some college', lifestyle: 'Browses on mobile, follows discount accounts', personality: 'Savvy, patient, comparison-driven', budget: '$20-$60 per order' },
+      { name: 'Loyal Lorraine', label: 'Repeat local regulars', differentiator: 'Comes back weekly and values being recognised.', ageRange: '40-65', income: '$45,000-$90,000', education: 'Mixed', lifestyle: 'Routine-based, lives nearby', personality: 'Warm, loyal, habit-driven', budget: '$15-$60 per visit' },
+      { name: 'Trend-setter Tyler', label: 'Early adopters', differentiator: 'Wants what is new and shareable before anyone else has it.', ageRange: '18-30', income: '$25,000-$60,000', education: 'Student or recent graduate', lifestyle: 'Social, always online, discovers via creators', personality: 'Expressive, impulsive, image-conscious', budget: '$30-$100 per order' },
+      { name: 'Premium Paul', label: 'Quality-first buyers', differentiator: 'Cares about craftsmanship and durability more than price.', ageRange: '35-55', income: '$110,000+', education: "Bachelor's or higher", lifestyle: 'Established career, buys fewer but better things', personality: 'Discerning, research-driven, loyal to quality', budget: '$150-$500 per order' }
+    ],
+    values: ['Quality', 'Sustainability', 'Supporting small businesses', 'Value for money', 'Uniqueness', 'Convenience', 'Community'],
+    interests: ['Instagram shopping', 'Local markets', 'Sustainable living', 'Food and travel', 'Lifestyle creators', 'Home decor', 'Seasonal trends'],
+    painPoints: ['Mass-market products feel generic', 'Unsure about quality when buying online', 'Shipping costs and delays', 'Hard to find the right gift', 'Too many choices'],
+    motivations: ['Treat themselves', 'Express their identity', 'Make someone happy', 'Feel good about where their money goes'],
+    goals: ['Find reliable products worth coming back to', 'Save time shopping', 'Discover something new', 'Build a trusted list of go-to shops'],
+    channels: ['Instagram', 'TikTok', 'Email offers', 'Google search', 'Word of mouth', 'In-store visits'],
+    decisionFactors: ['Product quality', 'Reviews and photos', 'Price and shipping', 'Brand story', 'Return policy'],
+    purchaseProcess: ['Discovers on social media, checks reviews and buys within a few days', 'Visits in person, buys, then reorders online']
+  },
+  {
+    key: 'education',
+    keywords: ['course', 'courses', 'learning', 'teach', 'teaching', 'students', 'training', 'education', 'tutoring', 'workshop', 'online course'],
+    industries: ['Technology', 'Financial services', 'Healthcare', 'Public sector'],
+    segments: [
+      { name: 'Career-switcher Carla', label: 'Career changers', differentiator: 'Invests in learning to move into a new field and needs proof it works.', ageRange: '27-40', income: '$40,000-$75,000', education: "Bachelor's degree in an unrelated field", lifestyle: 'Studies evenings and weekends around a full-time job', personality: 'Determined, anxious about the risk, goal-oriented', budget: '$500-$3,000 per programme' },
+      { name: 'Upskilling Umar', label: 'Professionals upskilling', differentiator: 'Wants to grow in their current role and often has employer funding.', ageRange: '28-45', income: '$70,000-$120,000', education: "Bachelor's or higher", lifestyle: 'Busy, learns in short bursts', personality: 'Ambitious, practical, time-conscious', budget: '$200-$1,500, often reimbursed' },
+      { name: 'Student Sara', label: 'Students and recent graduates', differentiator: 'Price-sensitive and looking for an edge when entering the job market.', ageRange: '18-25', income: 'Under $30,000', education: 'Currently studying', lifestyle: 'Flexible schedule, heavy mobile use', personality: 'Curious, social, budget-constrained', budget: '$20-$200' },
+      { name: 'Hobbyist Hank', label: 'Lifelong learners', differentiator: 'Learns for enjoyment and values community over certificates.', ageRange: '45-70', income: '$50,000-$100,000', education: 'Mixed', lifestyle: 'More free time, enjoys deep dives', personality: 'Patient, enthusiastic, sociable', budget: '$50-$400' },
+      { name: 'L&D Lena', label: 'Corporate training buyers', differentiator: 'Buys for a whole team and must show results to leadership.', ageRange: '32-50', income: '$80,000-$130,000', education: "Master's degree common", lifestyle: 'Plans training calendars and budgets', personality: 'Structured, outcome-driven, careful', budget: '$5,000-$50,000 per year' },
+      { name: 'Parent Pablo', label: 'Parents buying for their children', differentiator: 'Pays for learning but is not the learner; wants visible progress.', ageRange: '35-50', income: '$60,000-$120,000', education: "Bachelor's degree", lifestyle: 'Schedules around school and activities', personality: 'Protective, invested, results-focused', budget: '$50-$300 per month' }
+    ],
+    values: ['Growth', 'Practical skills', 'Credibility', 'Flexibility', 'Community', 'Curiosity', 'Achievement'],
+    interests: ['Online courses', 'Career development', 'YouTube tutorials', 'Reading', 'Professional communities', 'Podcasts', 'Certifications'],
+    painPoints: ['Courses start strong but they never finish', 'Not sure which skills are worth learning', 'Little time to study', 'Free content is scattered and shallow', 'Worried about wasting money'],
+    motivations: ['Advance their career', 'Feel competent and confident', 'Earn a recognised credential', 'Keep their mind sharp'],
+    goals: ['Complete a programme and apply the skills', 'Land a better role', 'Build a portfolio of work', 'Learn alongside peers'],
+    channels: ['YouTube', 'LinkedIn', 'Email newsletters', 'Google search', 'Reddit and forums', 'Podcasts'],
+    decisionFactors: ['Curriculum relevance', 'Instructor credibility', 'Reviews and outcomes', 'Price and payment plans', 'Flexible pacing'],
+    purchaseProcess: ['Consumes free content, joins a webinar, then enrols when a cohort opens', 'Researches reviews and outcomes, then gets approval or funding']
+  },
+  {
+    key: 'general',
+    keywords: [],
+    industries: ['Professional services', 'Retail', 'Manufacturing', 'Healthcare'],
+    segments: [
+      { name: 'Practical Pat', label: 'Problem-solvers', differentiator: 'Has a specific problem right now and wants it solved with minimal fuss.', ageRange: '30-50', income: '$50,000-$100,000', education: "Bachelor's degree", lifestyle: 'Busy, values convenience', personality: 'Direct, pragmatic, impatient with jargon', budget: 'Moderate, decides case by case' },
+      { name: 'Researcher Rhea', label: 'Careful evaluators', differentiator: 'Compares every option before buying and values detailed information.', ageRange: '28-45', income: '$60,000-$110,000', education: "Bachelor's or higher", lifestyle: 'Plans purchases ahead', personality: 'Analytical, thorough, sceptical', budget: 'Mid-range, wants clear value' },
+      { name: 'Loyal Leo', label: 'Relationship buyers', differentiator: 'Sticks with providers who know them and dislikes switching.', ageRange: '40-60', income: '$55,000-$100,000', education: 'Mixed', lifestyle: 'Settled routines, community-oriented', personality: 'Loyal, trusting, values personal service', budget: 'Steady, recurring spend' },
+      { name: 'Aspiring Ava', label: 'Ambitious newcomers', differentiator: 'Early in their journey and buying to level up quickly.', ageRange: '22-32', income: '$35,000-$65,000', education: "Bachelor's degree or studying", lifestyle: 'Fast-paced, digital-first', personality: 'Optimistic, eager, trend-aware', budget: 'Entry-level, grows over time' },
+      { name: 'Premium Pia', label: 'Premium seekers', differentiator: 'Pays for the best option and expects exceptional service.', ageRange: '35-55', income: '$120,000+', education: "Master's degree common", lifestyle: 'Time-poor, outsources whenever possible', personality: 'Demanding, decisive, brand-conscious', budget: 'High, value over price' },
+      { name: 'Community Cam', label: 'Local community members', differentiator: 'Chooses businesses that are part of their community.', ageRange: '30-65', income: '$40,000-$90,000', education: 'Mixed', lifestyle: 'Rooted locally, active in groups', personality: 'Friendly, loyal, word-of-mouth driven', budget: 'Modest, recurring' }
+    ],
+    values: ['Trust', 'Quality', 'Value for money', 'Reliability', 'Personal service', 'Convenience', 'Honesty'],
+    interests: ['Personal development', 'Local events', 'Online reviews', 'Social media', 'Podcasts', 'Travel', 'Family time'],
+    painPoints: ['Too many options and not enough clarity', 'Bad experiences with unreliable providers', 'Limited time to research', 'Unclear pricing'],
+    motivations: ['Save time', 'Feel confident in their choice', 'Get good value', 'Be looked after'],
+    goals: ['Solve the problem for good', 'Work with someone trustworthy', 'Stay within budget', 'Get results quickly'],
+    channels: ['Google search', 'Facebook', 'Instagram', 'Email', 'Word of mouth', 'Online reviews'],
+    decisionFactors: ['Reputation and reviews', 'Price', 'Responsiveness', 'Recommendations', 'Ease of buying'],
+    purchaseProcess: ['Searches online, reads reviews and contacts two or three providers before choosing', 'Asks friends for a recommendation and buys after a quick conversation']
+  }
+]
@@ -0,0 +1,87 @@
+import { createRandom, hashString, pick } from './seeded-random'
+import type { CustomerProfile } from './profile-schema'
+
+/**
+ * Draws an illustrated head-and-shoulders avatar for a persona as SVG
+ * markup. Nothing is fetched: the same profile always gives the same
+ * picture, so it can be embedded in exports as well as shown in the app.
+ */
+
+const BACKGROUNDS = ['#dbeafe', '#dcfce7', '#fef3c7', '#fce7f3', '#ede9fe', '#ccfbf1', '#ffedd5']
+const SKIN_TONES = ['#f5d0b0', '#e8b48f', '#c98e63', '#a86b45', '#7a4a2c', '#5a3520']
+const HAIR_COLORS = ['#2b1d14', '#4a3123', '#7a5230', '#b8834f', '#1c1c1c']
+const GREY_HAIR = '#b8b8b8'
+const CLOTHES = ['#2563eb', '#059669', '#d97706', '#db2777', '#7c3aed', '#0f766e', '#475569']
+const INK = '#1f2937'
+
+type HairStyle = 'short' | 'long' | 'bun'
+
+const HAIR_BEHIND: Record<HairStyle, string> = {
+  short: '',
+  long: '<path d="M35 56c0-20 11-30 25-30s25 10 25 30v30H35z"/>',
+  bun: '<circle cx="60" cy="26" r="9"/>'
+}
+
+const HAIR_ON_TOP: Record<HairStyle, string> = {
+  short: '<path d="M37 54c-1-17 9-26 23-26s24 9 23 26c-5-8-13-12-23-12s-18 4-23 12z"/>',
+  long: '<path d="M37 52c2-15 11-22 23-22s21 7 23 22c-7-6-15-9-23-9s-16 3-23 9z"/>',
+  bun: '<path d="M37 52c2-15 11-22 23-22s21 7 23 22c-7-6-15-9-23-9s-16 3-23 9z"/>'
+}
+
+// Only loose hints are taken from the profile; the rest comes from the name
+function readLooks(profile: CustomerProfile) {
+  const gender = profile.demographics?.gender.toLowerCase() ?? ''
+  const youngest = Number(profile.demographics?.ageRange.match(/\d+/)?.[0])
+  const personality = profile.psychographics.personality.toLowerCase()
+  return {
+    hairStyles: (/\bwomen\b/.test(gender) ? ['long', 'bun'] : /\bmen\b/.test(gender) ? ['short'] : ['short', 'long', 'bun']) as HairStyle[],
+    grey: youngest >= 50,
+    glasses: /analytic|detail|data|methodical|research|curious/.test(personality),
+    business: profile.firmographics !== undefined
+  }
+}
+
+export function createPersonaAvatar(profile: CustomerProfile) {
+  const name = profile.narrative?.name ?? ''
+  const random = createRandom(hashString(`${name}|${profile.psychographics.personality}`))
+  const looks = readLooks(profile)
+  const background = pick(random, BACKGROUNDS)
+  const skin = pick(random, SKIN_TONES)
+  const hair = looks.grey ? GREY_HAIR : pick(random, HAIR_COLORS)
+  const clothes = pick(random, CLOTHES)
+  const hairStyle = pick(random, looks.hairStyles)
+
+  // A jacket with lapels for B2B personas, a crew-neck top otherwise
+  const collar = looks.business
+    ? `<path d="M46 86l14 22 14-22" fill="#ffffff"/><path d="M46 86l-6 10 12 6zM74 86l6 10-12 6z" fill="${INK}" opacity="0.25"/>`
+    : `<path d="M50 86q10 8 20 0" fill="none" stroke="${INK}" stroke-width="2" opacity="0.25"/>`
+  const glasses = looks.glasses
+    ? `<g fill="none" stroke="${INK}" stroke-width="2"><circle cx="52" cy="57" r="6"/><circle cx="68" cy="57" r="6"/><path d="M58 57h4"/></g>`
+    : ''
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 120" role="img" aria-label="${escapeXml(name ? `Illustrated avatar of ${name}` : 'Illustrated avatar')}">
+<defs><clipPath id="frame"><circle cx="60" cy="60" r="60"/></clipPath></defs>
+<g clip-path="url(#frame)">
+<rect width="120" height="120" fill="${background}"/>
+<g fill="${hair}">${HAIR_BEHIND[hairStyle]}</g>
+<path d="M18 124c0-26 19-40 42-40s42 14 42 40z" fill="${clothes}"/>
+<rect x="52" y="72" width="16" height="16" rx="6" fill="${skin}"/>
+${collar}
+<circle cx="60" cy="56" r="22" fill="${skin}"/>
+<g fill="${hair}">${HAIR_ON_TOP[hairStyle]}</g>
+<circle cx="52" cy="57" r="2.5" fill="${INK}"/>
+<circle cx="68" cy="57" r="2.5" fill="${INK}"/>
+<path d="M53 66q7 6 14 0" fill="none" stroke="${INK}" stroke-width="2.5" stroke-linecap="round"/>
+${glasses}
+</g>
+</svg>`
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/** For `<img src>`, which keeps the markup out of the page's DOM. */
+export function toSvgDataUri(svg: string) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
@@ -0,0 +1,208 @@
+import { ANTI_PERSONA_LISTS } from './anti-persona'
+import type { ProfileGenerationProvider } from './generation-provider'
+import { getFieldDefinition, getModeFields, type ProfileFieldPath } from './profile-fields'
+import type { RequestOptions } from './profile-generation'
+import type { FieldLocks } from './profile-locks'
+import { detectProfileMode, getProfileMode, getProfileModeLabel, type ProfileMode } from './profile-mode'
+import { renderReportMarkdown } from './profile-markdown'
+import { buildProfileReport } from './profile-report'
+import { buildProfileExport, createPersona, getPersonaTitle, isPersonaSet, MAX_PERSONAS, MIN_PERSONAS } from './profile-personas'
+import { ProfileValidationError, type AntiPersona, type BusinessInfo, type Persona, type ProfileFieldError } from './profile-schema'
+
+/**
+ * The framework-free entry point for generating and exporting customer
+ * profiles. It has no React or DOM dependencies, so scripts and other apps
+ * can use it the same way the generator UI does.
+ */
+
+export interface GenerateCustomerProfileInput {
+  businessInfo: BusinessInfo
+  /** 1 for a single profile, or 2-6 for a persona set. Defaults to 1. */
+  personaCount?: number
+  /** B2C or B2B. Detected from the business info when omitted. */
+  mode?: ProfileMode
+  /** Values to keep as they are. Only used for single profiles. */
+  locks?: FieldLocks
+  /** Also explain every field, as the app does after generating. */
+  explain?: boolean
+}
+
+export interface GenerateCustomerProfileOptions extends RequestOptions {
+  /** Writes the profiles; see `getGenerationProvider`. */
+  provider: ProfileGenerationProvider
+}
+
+const REQUIRED_FIELDS: { key: keyof BusinessInfo, label: string }[] = [
+  { key: 'visionStatement', label: 'Vision statement' },
+  { key: 'missionStatement', label: 'Mission statement' },
+  { key: 'businessDescription', label: 'Business description' }
+]
+
+function checkInput({ businessInfo, personaCount = 1, locks = {} }: GenerateCustomerProfileInput, mode: ProfileMode): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = REQUIRED_FIELDS
+    .filter(({ key }) => !businessInfo[key]?.trim())
+    .map(({ key, label }) => ({ path: `businessInfo.${key}`, message: `${label} is required` }))
+
+  if (!Number.isInteger(personaCount) || (personaCount !== 1 && (personaCount < MIN_PERSONAS || personaCount > MAX_PERSONAS))) {
+    errors.push({ path: 'personaCount', message: `Must be 1, or between ${MIN_PERSONAS} and ${MAX_PERSONAS} for a persona set` })
+  }
+
+  const fields = getModeFields(mode).map(field => field.path)
+  for (const path of Object.keys(locks) as ProfileFieldPath[]) {
+    if (!fields.includes(path)) errors.push({ path: `locks.${path}`, message: `Not a field of ${mode.toUpperCase()} profiles` })
+  }
+  return errors
+}
+
+/**
+ * Generates a single profile or a persona set. A single profile comes back
+ * as a list of one persona, the same shape saved profiles use. Invalid input
+ * throws a ProfileValidationError before anything is requested.
+ */
+export async function generateCustomerProfile(
+  input: GenerateCustomerProfileInput,
+  options: GenerateCustomerProfileOptions
+): Promise<Persona[]> {
+  const { businessInfo, personaCount = 1, locks = {}, explain = false } = input
+  const mode = input.mode ?? detectProfileMode(businessInfo).mode
+  const inputErrors = checkInput(input, mode)
+  if (inputErrors.length > 0) throw new ProfileValidationError(inputErrors)
+
+  const { provider, ...request } = options
+
+  const personas = personaCount > 1
+    ? (await provider.generatePersonaSet(businessInfo, mode, personaCount, request))
+        .map(({ customerProfile, segment }) => createPersona(customerProfile, segment))
+    : [{ ...createPersona(await provider.generateProfile(businessInfo, mode, locks, request)), lockedFields: locks }]
+  if (!explain) return personas
+
+  // Partial explanations are not profile sections, so they are not streamed to onPartial
+  const explainRequest = { signal: request.signal, config: request.config }
+  return Promise.all(personas.map(async persona => ({
+    ...persona,
+    rationales: await provider.explainProfile(businessInfo, persona.customerProfile, undefined, explainRequest)
+  })))
+}
+
+/**
+ * Describes whom not to target, based on personas from
+ * `generateCustomerProfile`. Kept separate so callers can show the profile
+ * first and add the anti-persona when it arrives.
+ */
+export async function generateAntiPersona(
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  options: GenerateCustomerProfileOptions
+): Promise<AntiPersona> {
+  const { provider, ...request } = options
+  return provider.generateAntiPersona(businessInfo, personas.map(persona => persona.customerProfile), request)
+}
+
+function renderAudienceText({ demographics, firmographics }: Persona['customerProfile']) {
+  if (demographics) {
+    return `DEMOGRAPHICS
+Age Range: ${demographics.ageRange}
+Gender: ${demographics.gender}
+Location: ${demographics.location}
+Income Level: ${demographics.income}
+Education: ${demographics.education}`
+  }
+  return firmographics ? `FIRMOGRAPHICS
+Company Size: ${firmographics.companySize}
+Industry: ${firmographics.industry}
+Revenue Band: ${firmographics.revenueBand}
+Tech Stack: ${firmographics.techStack.join(', ')}` : ''
+}
+
+function renderPersonaText({ customerProfile, editedFields }: Persona) {
+  const { buyingCommittee, narrative } = customerProfile
+  return `${narrative ? `
+PERSONA STORY
+Name: ${narrative.name}
+Quote: "${narrative.quote}"
+A Day in the Life: ${narrative.dayInTheLife}
+` : ''}
+${renderAudienceText(customerProfile)}
+
+PSYCHOGRAPHICS
+Values: ${customerProfile.psychographics.values.join(', ')}
+Interests: ${customerProfile.psychographics.interests.join(', ')}
+Lifestyle: ${customerProfile.psychographics.lifestyle}
+Personality: ${customerProfile.psychographics.personality}
+
+PAIN POINTS
+${customerProfile.painPoints.map(point => `• ${point}`).join('\n')}
+
+MOTIVATIONS
+${customerProfile.motivations.map(motivation => `• ${motivation}`).join('\n')}
+
+GOALS
+${customerProfile.goals.map(goal => `• ${goal}`).join('\n')}
+
+COMMUNICATION CHANNELS
+${customerProfile.communicationChannels.join(', ')}
+${buyingCommittee ? `
+BUYING COMMITTEE
+Decision Makers: ${buyingCommittee.decisionMakers.join(', ')}
+Members:
+${buyingCommittee.members.map(member => `• ${member}`).join('\n')}
+Sales Cycle: ${buyingCommittee.salesCycle}
+` : ''}
+BUYING BEHAVIOR
+Decision Factors: ${customerProfile.buyingBehavior.decisionFactors.join(', ')}
+Purchase Process: ${customerProfile.buyingBehavior.purchaseProcess}
+Budget Range: ${customerProfile.buyingBehavior.budget}
+${editedFields.length > 0 ? `
+Edited by hand: ${editedFields.map(path => getFieldDefinition(path).label).join(', ')}` : ''}`.trim()
+}
+
+function renderAntiPersonaText(antiPersona: AntiPersona) {
+  return `ANTI-PERSONA: ${antiPersona.name.toUpperCase()}
+${antiPersona.description}
+Why they look attractive: ${antiPersona.appeal}
+
+${ANTI_PERSONA_LISTS.map(({ key, label }) => `${label.toUpperCase()}
+${antiPersona[key].map(item => key === 'redFlagPhrases' ? `• "${item}"` : `• ${item}`).join('\n')}`).join('\n\n')}`
+}
+
+/** The plain-text report offered as "Export Text". */
+export function renderProfileText(businessInfo: BusinessInfo, personas: Persona[], antiPersona?: AntiPersona, generatedAt = new Date()) {
+  const profileSection = isPersonaSet(personas)
+    ? `CUSTOMER PERSONAS (${personas.length})
+
+${personas.map((persona, index) => `PERSONA ${index + 1}: ${getPersonaTitle(persona, index).toUpperCase()}
+Segment: ${persona.segment?.label ?? 'Not specified'}
+How they differ: ${persona.segment?.differentiator ?? 'Not specified'}
+
+${renderPersonaText(persona)}`).join('\n\n\n')}`
+    : `CUSTOMER PROFILE
+
+${renderPersonaText(personas[0])}`
+
+  return `
+CUSTOMER PROFILE REPORT
+Generated: ${generatedAt.toLocaleDateString()}
+
+BUSINESS INFORMATION
+Vision Statement: ${businessInfo.visionStatement}
+Mission Statement: ${businessInfo.missionStatement}
+Business Description: ${businessInfo.businessDescription}
+Target Market: ${businessInfo.targetMarket || 'Not specified'}
+Customer Type: ${getProfileModeLabel(getProfileMode(personas[0].customerProfile))}
+
+${profileSection}
+${antiPersona ? `
+
+${renderAntiPersonaText(antiPersona)}` : ''}
+  `.trim()
+}
+
+/** The Markdown offered as "Export Markdown", written from the same report as the Word export. */
+export function renderProfileMarkdown(businessInfo: BusinessInfo, personas: Persona[], antiPersona?: AntiPersona, generatedAt = new Date()) {
+  return renderReportMarkdown(buildProfileReport(businessInfo, personas, antiPersona, generatedAt))
+}
+
+/** The versioned JSON offered as "Export JSON"; `profile-import.ts` reads it back. */
+export function serializeProfileExport(businessInfo: BusinessInfo, personas: Persona[], antiPersona?: AntiPersona) {
+  return JSON.stringify(buildProfileExport(businessInfo, personas, antiPersona), null, 2)
+}
@@ -0,0 +1,161 @@
+import type { Paragraph, Table } from 'docx'
+import { brandTextColor, hexWithoutHash, mixWithWhite, type ExportBranding } from './export-branding'
+import { buildProfileReport, type ReportBlock } from './profile-report'
+import { rasterizePersonaAvatars, type RasterImage } from './raster-image'
+import type { AntiPersona, BusinessInfo, Persona } from './profile-schema'
+
+/**
+ * Writes the report as a Word document. Headings, lists and quotes use
+ * Word's own styles, so the document can be restyled, navigated and turned
+ * into a table of contents in Word like any other.
+ */
+
+type Docx = typeof import('docx')
+
+const AVATAR_PIXELS = 240
+// Word sizes images in pixels at 96 per inch
+const AVATAR_SIZE = 96
+const MUTED = '6B7280'
+
+function toBytes(dataUrl: string) {
+  return Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), char => char.charCodeAt(0))
+}
+
+function blockContent(docx: Docx, block: ReportBlock, branding: ExportBranding): (Paragraph | Table)[] {
+  const { Paragraph, Table, TableCell, TableRow, TextRun, ShadingType, WidthType } = docx
+  const label = 'label' in block && block.label
+    ? [new Paragraph({ children: [new TextRun({ text: block.label, bold: true })], keepNext: true, spacing: { before: 160, after: 40 } })]
+    : []
+
+  switch (block.kind) {
+    case 'paragraph':
+      return [...label, new Paragraph({ text: block.text })]
+    case 'quote':
+      return [new Paragraph({ text: `“${block.text}”`, style: 'Quote' })]
+    case 'list':
+      return [...label, ...block.items.map(item => new Paragraph({ text: item, bullet: { level: 0 } }))]
+    case 'terms':
+      return [...label, ...block.items.map(({ term, text }) => new Paragraph({
+        bullet: { level: 0 },
+        children: [new TextRun({ text: term, bold: true }), ...(text ? [new TextRun(`: ${text}`)] : [])]
+      }))]
+    case 'table':
+      return [new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        margins: { top: 80, bottom: 80, left: 120, right: 120 },
+        rows: block.rows.map(row => new TableRow({
+          cantSplit: true,
+          children: [
+            new TableCell({
+              width: { size: 30, type: WidthType.PERCENTAGE },
+              shading: { type: ShadingType.CLEAR, color: 'auto', fill: hexWithoutHash(mixWithWhite(branding.primaryColor, 0.88)) },
+              children: [new Paragraph({ children: [new TextRun({ text: row.label, bold: true })] })]
+            }),
+            new TableCell({
+              width: { size: 70, type: WidthType.PERCENTAGE },
+              children: [new Paragraph({ text: row.value })]
+            })
+          ]
+        }))
+      })]
+  }
+}
+
+function avatarParagraph(docx: Docx, avatar: RasterImage, name: string) {
+  return new docx.Paragraph({
+    spacing: { after: 120 },
+    children: [new docx.ImageRun({
+      type: 'png',
+      data: toBytes(avatar.dataUrl),
+      transformation: { width: AVATAR_SIZE, height: AVATAR_SIZE },
+      altText: { name: 'Avatar', title: name, description: `Illustrated avatar of ${name}` }
+    })]
+  })
+}
+
+/** The Word document offered as "Export Word". */
+export async function createProfileDocx(
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  antiPersona: AntiPersona | undefined,
+  branding: ExportBranding,
+  generatedAt = new Date()
+): Promise<Blob> {
+  const [docx, avatars] = await Promise.all([
+    import('docx'),
+    rasterizePersonaAvatars(personas, AVATAR_PIXELS)
+  ])
+  const { AlignmentType, Document, Footer, Header, HeadingLevel, Packer, PageNumber, Paragraph, TextRun } = docx
+  const report = buildProfileReport(businessInfo, personas, antiPersona, generatedAt)
+  const primary = hexWithoutHash(brandTextColor(branding.primaryColor))
+  const accent = hexWithoutHash(brandTextColor(branding.accentColor))
+
+  const body = report.chapters.flatMap((chapter) => {
+    const personaIndex = chapter.persona ? personas.indexOf(chapter.persona) : -1
+    return [
+      new Paragraph({ text: chapter.title, heading: HeadingLevel.HEADING_1, pageBreakBefore: true }),
+      ...(chapter.subtitle ? [new Paragraph({ text: chapter.subtitle, style: 'Subtitle' })] : []),
+      ...(personaIndex >= 0 ? [avatarParagraph(docx, avatars[personaIndex], chapter.title)] : []),
+      ...chapter.sections.flatMap(section => [
+        new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_2 }),
+        ...section.blocks.flatMap(block => blockContent(docx, block, branding))
+      ])
+    ]
+  })
+
+  const document = new Document({
+    title: report.title,
+    creator: branding.companyName || undefined,
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: 22 }, paragraph: { spacing: { after: 80 } } },
+        title: { run: { font: 'Calibri', size: 56, bold: true, color: primary }, paragraph: { spacing: { after: 160 } } },
+        heading1: { run: { font: 'Calibri', size: 36, bold: true, color: primary }, paragraph: { spacing: { after: 80 } } },
+        heading2: { run: { font: 'Calibri', size: 26, bold: true, color: primary }, paragraph: { spacing: { before: 280, after: 100 }, keepNext: true } }
+      },
+      paragraphStyles: [
+        {
+          id: 'Subtitle',
+          name: 'Subtitle',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { size: 24, italics: true, color: MUTED },
+          paragraph: { spacing: { after: 200 } }
+        },
+        {
+          id: 'Quote',
+          name: 'Quote',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { size: 26, italics: true, color: accent },
+          paragraph: { indent: { left: 567 }, spacing: { before: 120, after: 160 } }
+        }
+      ]
+    },
+    sections: [{
+      headers: branding.companyName ? {
+        default: new Header({ children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: branding.companyName, color: MUTED, size: 18 })] })] })
+      } : undefined,
+      footers: branding.pageNumbers ? {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], color: MUTED, size: 18 })]
+          })]
+        })
+      } : undefined,
+      children: [
+        new Paragraph({ text: report.title, heading: HeadingLevel.TITLE }),
+        new Paragraph({
+          style: 'Subtitle',
+          text: branding.companyName
+            ? `Prepared by ${branding.companyName} on ${report.generatedAt.toLocaleDateString()}`
+            : `Generated ${report.generatedAt.toLocaleDateString()}`
+        }),
+        ...body
+      ]
+    }]
+  })
+
+  return Packer.toBlob(document)
+}
@@ -0,0 +1,88 @@
+import type { ExportBranding } from './export-branding'
+import { getTemplateFormat, renderExportTemplate, type ExportTemplate } from './export-templates'
+import { renderProfileMarkdown, renderProfileText, serializeProfileExport } from './profile-core'
+import { createProfileDocx } from './profile-docx'
+import { createProfilePdf } from './profile-pdf'
+import { createProfilePptx } from './profile-pptx'
+import type { TemplateProblem } from './template-engine'
+import type { AntiPersona, BusinessInfo, Persona } from './profile-schema'
+
+/**
+ * Turns a profile into the files offered by the Export menu. Only
+ * `downloadFile` needs a page; it hands a finished file to the browser.
+ */
+
+export type ProfileExportFormat = 'pdf' | 'docx' | 'pptx' | 'markdown' | 'text' | 'json'
+
+export interface ExportFile {
+  content: string | Blob
+  mimeType: string
+  filename: string
+}
+
+export interface TemplateExport {
+  file: ExportFile
+  /** Placeholders that could not be filled; the file is still usable. */
+  problems: TemplateProblem[]
+}
+
+const FILENAME = 'customer-profile'
+
+/** Uses the same branding for every document format, so the documents match. */
+export async function createProfileExport(
+  format: ProfileExportFormat,
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  antiPersona: AntiPersona | undefined,
+  branding: ExportBranding
+): Promise<ExportFile> {
+  switch (format) {
+    case 'pdf':
+      return {
+        content: await createProfilePdf(businessInfo, personas, antiPersona, branding),
+        mimeType: 'application/pdf',
+        filename: `${FILENAME}.pdf`
+      }
+    case 'docx':
+      return {
+        content: await createProfileDocx(businessInfo, personas, antiPersona, branding),
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        filename: `${FILENAME}.docx`
+      }
+    case 'pptx':
+      return {
+        content: await createProfilePptx(businessInfo, personas, antiPersona, branding),
+        mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        filename: `${FILENAME}.pptx`
+      }
+    case 'markdown':
+      return { content: renderProfileMarkdown(businessInfo, personas, antiPersona), mimeType: 'text/markdown', filename: `${FILENAME}.md` }
+    case 'text':
+      return { content: renderProfileText(businessInfo, personas, antiPersona), mimeType: 'text/plain', filename: `${FILENAME}.txt` }
+    case 'json':
+      return { content: serializeProfileExport(businessInfo, personas, antiPersona), mimeType: 'application/json', filename: `${FILENAME}.json` }
+  }
+}
+
+/** Fills `template` from `context`. Throws TemplateSyntaxError for templates that cannot be read. */
+export function createTemplateExport(template: ExportTemplate, context: Record<string, unknown>): TemplateExport {
+  const { output, problems } = renderExportTemplate(template, context)
+  const format = getTemplateFormat(template.format)
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return {
+    file: { content: output, mimeType: format.mimeType, filename: `${FILENAME}${slug ? `-${slug}` : ''}.${format.extension}` },
+    problems
+  }
+}
+
+export function downloadFile({ content, mimeType, filename }: ExportFile) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,148 @@
+import { getProfileMode, type ProfileMode } from './profile-mode'
+import type { CustomerProfile } from './profile-schema'
+
+export type ProfileFieldKind = 'text' | 'list'
+
+export interface ProfileFieldDefinition {
+  path: ProfileFieldPath
+  label: string
+  kind: ProfileFieldKind
+}
+
+export const PROFILE_FIELD_PATHS = [
+  'narrative.name',
+  'narrative.quote',
+  'narrative.dayInTheLife',
+  'demographics.ageRange',
+  'demographics.gender',
+  'demographics.location',
+  'demographics.income',
+  'demographics.education',
+  'firmographics.companySize',
+  'firmographics.industry',
+  'firmographics.revenueBand',
+  'firmographics.techStack',
+  'psychographics.values',
+  'psychographics.interests',
+  'psychographics.lifestyle',
+  'psychographics.personality',
+  'painPoints',
+  'motivations',
+  'goals',
+  'communicationChannels',
+  'buyingCommittee.decisionMakers',
+  'buyingCommittee.members',
+  'buyingCommittee.salesCycle',
+  'buyingBehavior.decisionFactors',
+  'buyingBehavior.purchaseProcess',
+  'buyingBehavior.budget'
+] as const
+
+export type ProfileFieldPath = typeof PROFILE_FIELD_PATHS[number]
+
+export type ProfileFieldValue = string | string[]
+
+/** Every editable leaf of a CustomerProfile, in display order. */
+export const PROFILE_FIELDS: ProfileFieldDefinition[] = [
+  { path: 'narrative.name', label: 'Name', kind: 'text' },
+  { path: 'narrative.quote', label: 'Quote', kind: 'text' },
+  { path: 'narrative.dayInTheLife', label: 'A Day in the Life', kind: 'text' },
+  { path: 'demographics.ageRange', label: 'Age Range', kind: 'text' },
+  { path: 'demographics.gender', label: 'Gender', kind: 'text' },
+  { path: 'demographics.location', label: 'Location', kind: 'text' },
+  { path: 'demographics.income', label: 'Income Level', kind: 'text' },
+  { path: 'demographics.education', label: 'Education', kind: 'text' },
+  { path: 'firmographics.companySize', label: 'Company Size', kind: 'text' },
+  { path: 'firmographics.industry', label: 'Industry', kind: 'text' },
+  { path: 'firmographics.revenueBand', label: 'Revenue Band', kind: 'text' },
+  { path: 'firmographics.techStack', label: 'Tech Stack', kind: 'list' },
+  { path: 'psychographics.values', label: 'Values', kind: 'list' },
+  { path: 'psychographics.interests', label: 'Interests', kind: 'list' },
+  { path: 'psychographics.lifestyle', label: 'Lifestyle', kind: 'text' },
+  { path: 'psychographics.personality', label: 'Personality', kind: 'text' },
+  { path: 'painPoints', label: 'Pain Points', kind: 'list' },
+  { path: 'motivations', label: 'Motivations', kind: 'list' },
+  { path: 'goals', label: 'Goals', kind: 'list' },
+  { path: 'communicationChannels', label: 'Communication Channels', kind: 'list' },
+  { path: 'buyingCommittee.decisionMakers', label: 'Decision Makers', kind: 'list' },
+  { path: 'buyingCommittee.members', label: 'Committee Members', kind: 'list' },
+  { path: 'buyingCommittee.salesCycle', label: 'Sales Cycle', kind: 'text' },
+  { path: 'buyingBehavior.decisionFactors', label: 'Decision Factors', kind: 'list' },
+  { path: 'buyingBehavior.purchaseProcess', label: 'Purchase Process', kind: 'text' },
+  { path: 'buyingBehavior.budget', label: 'Budget Range', kind: 'text' }
+]
+
+export function getFieldDefinition(path: ProfileFieldPath) {
+  return PROFILE_FIELDS.find(field => field.path === path)!
+}
+
+/** Reads a field. Fields of sections the profile lacks (see `getPresentFields`) are undefined. */
+export function getProfileField(profile: CustomerProfile, path: ProfileFieldPath): ProfileFieldValue {
+  const [section, key] = path.split('.') as [keyof CustomerProfile, string | undefined]
+  const value = profile[section]
+  return (key ? (value as Record<string, ProfileFieldValue> | undefined)?.[key] : value) as ProfileFieldValue
+}
+
+/** Returns a copy of the profile with one field replaced. */
+export function setProfileField(profile: CustomerProfile, path: ProfileFieldPath, value: ProfileFieldValue): CustomerProfile {
+  const [section, key] = path.split('.') as [keyof CustomerProfile, string | undefined]
+  if (!key) {
+    return { ...profile, [section]: value }
+  }
+  return { ...profile, [section]: { ...(profile[section] as object), [key]: value } }
+}
+
+export type ProfileSectionKey = keyof CustomerProfile
+
+export interface ProfileSectionDefinition {
+  key: ProfileSectionKey
+  title: string
+  /** Set for sections only profiles of one mode have. */
+  mode?: ProfileMode
+}
+
+/** The result cards, in display order. */
+export const PROFILE_SECTIONS: ProfileSectionDefinition[] = [
+  { key: 'narrative', title: 'Persona Story' },
+  { key: 'demographics', title: 'Demographics', mode: 'b2c' },
+  { key: 'firmographics', title: 'Firmographics', mode: 'b2b' },
+  { key: 'psychographics', title: 'Psychographics' },
+  { key: 'painPoints', title: 'Pain Points' },
+  { key: 'motivations', title: 'Motivations' },
+  { key: 'goals', title: 'Goals' },
+  { key: 'communicationChannels', title: 'Communication Channels' },
+  { key: 'buyingCommittee', title: 'Buying Committee', mode: 'b2b' },
+  { key: 'buyingBehavior', title: 'Buying Behavior' }
+]
+
+/** Sections with long values, shown full width below the grid of smaller cards. */
+export const WIDE_SECTIONS: ProfileSectionKey[] = ['buyingCommittee', 'buyingBehavior']
+
+export function getModeSections(mode: ProfileMode) {
+  return PROFILE_SECTIONS.filter(section => !section.mode || section.mode === mode)
+}
+
+export function getModeFields(mode: ProfileMode) {
+  const sections = getModeSections(mode).map(section => section.key)
+  return PROFILE_FIELDS.filter(field => sections.includes(getSectionOfField(field.path)))
+}
+
+/**
+ * The fields a profile has: those of its mode, less the story for profiles
+ * saved before it was generated.
+ */
+export function getPresentFields(profile: CustomerProfile) {
+  return getModeFields(getProfileMode(profile)).filter(field => profile[getSectionOfField(field.path)] !== undefined)
+}
+
+export function getSectionOfField(path: ProfileFieldPath) {
+  return path.split('.')[0] as ProfileSectionKey
+}
+
+export function getSectionTitle(key: ProfileSectionKey) {
+  return PROFILE_SECTIONS.find(section => section.key === key)!.title
+}
+
+export function getSectionFields(key: ProfileSectionKey) {
+  return PROFILE_FIELD_PATHS.filter(path => getSectionOfField(path) === key)
+}
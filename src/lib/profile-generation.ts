@@ -0,0 +1,325 @@
+import { z } from 'zod'
+import {
+  parseWithSchema,
+  PROFILE_MODE_SCHEMAS,
+  profileSectionSchemas,
+  ProfileValidationError,
+  toGenerationSchema,
+  type BusinessInfo,
+  personaSegmentSchema,
+  type CustomerProfile,
+  type PersonaSegment,
+  type ProfileFieldError
+} from './profile-schema'
+import { getSectionTitle, type ProfileSectionKey } from './profile-fields'
+import { getProfileMode, type ProfileMode } from './profile-mode'
+import { applyLocks, checkLocks, describeLocks, locksForSection, type FieldLocks } from './profile-locks'
+import { checkDistinctSegments } from './profile-personas'
+import { defaultGenerationConfig, type GenerationConfig } from './generation-config'
+import {
+  classifyGenerationError,
+  GenerationCancelledError,
+  GenerationTimeoutError,
+  isTransientError
+} from './generation-errors'
+
+const MAX_ATTEMPTS = 3
+
+export interface ObjectRequest {
+  prompt: string
+  schema: Record<string, unknown>
+  signal?: AbortSignal
+}
+
+/**
+ * The object generation the Blink provider sends its requests through, such
+ * as `blink.ai` of a Blink client. Passed in rather than imported, so this
+ * module works without creating a client.
+ */
+export interface ObjectGenerationClient {
+  generateObject(request: ObjectRequest): Promise<{ object: unknown }>
+  streamObject(request: ObjectRequest, onPartial: (partial: unknown) => void): Promise<{ object: unknown }>
+}
+
+/** How AI requests are sent; passed through to every request a generation makes. */
+export interface RequestOptions {
+  /** Aborting it cancels the request (and any pending retry) with a GenerationCancelledError. */
+  signal?: AbortSignal
+  /** Overrides for the timeout and retry defaults. */
+  config?: Partial<GenerationConfig>
+  /** Streams the response, calling this with each partial object as it arrives. */
+  onPartial?: (partial: unknown) => void
+  /** Set by the Blink provider; requests without one fail. */
+  client?: ObjectGenerationClient
+}
+
+export interface GenerateOptions<T> extends RequestOptions {
+  /** Extra checks on a schema-valid response; any errors trigger a repair attempt. */
+  check?: (value: T) => ProfileFieldError[]
+  /** Fixes up a response that still fails `check` after the last attempt. */
+  fallback?: (value: T) => T
+}
+
+const MODE_BRIEFS: Record<ProfileMode, string> = {
+  b2c: 'Please analyze these statements and create a comprehensive customer profile that includes demographics, psychographics, pain points, motivations, goals, communication channels, and buying behavior. Then bring the customer to life as one person: a name, a one-line quote and a short "day in the life" story.',
+  b2b: 'This business sells to other businesses. Please analyze these statements and describe the ideal customer company and the people who buy for it: firmographics (company size, industry, revenue band and tech stack), the psychographics, pain points, motivations and goals of the person who champions the purchase, the communication channels that reach them, the buying committee (who signs off, what each member individually cares about, and how long the sales cycle takes), and buying behavior. Then bring the champion to life as one person: a name, a one-line quote and a short "day in the life" story at work.'
+}
+
+export function buildProfilePrompt(businessInfo: BusinessInfo, mode: ProfileMode, locks: FieldLocks = {}) {
+  return `
+        Based on the following business information, create a detailed ideal customer profile:
+        
+        Vision Statement: ${businessInfo.visionStatement}
+        Mission Statement: ${businessInfo.missionStatement}
+        Business Description: ${businessInfo.businessDescription}
+        Target Market: ${businessInfo.targetMarket}
+        
+        ${MODE_BRIEFS[mode]}
+        ${describeLocks(locks)}
+      `
+}
+
+function buildRepairPrompt(prompt: string, previous: unknown, error: ProfileValidationError) {
+  return `
+    ${prompt}
+
+    Your previous response did not match the required schema. These fields were wrong:
+    ${error.fieldErrors.map(e => `- ${e.path}: ${e.message}`).join('\n    ')}
+
+    Previous response:
+    ${JSON.stringify(previous)}
+
+    Return the complete corrected object. Keep every field that was already valid unchanged.
+  `
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new GenerationCancelledError())
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new GenerationCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Runs one AI request under its own AbortController, which fires when the
+ * caller's signal aborts or when `timeoutMs` passes without a response.
+ * `touch` restarts the timeout clock.
+ */
+async function withTimeout<T>(
+  timeoutMs: number,
+  outer: AbortSignal | undefined,
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> {
+  if (outer?.aborted) throw new GenerationCancelledError()
+
+  const controller = new AbortController()
+  let timedOut = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const touch = () => {
+    clearTimeout(timer)
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeoutMs)
+    }
+  }
+  const onAbort = () => controller.abort()
+  outer?.addEventListener('abort', onAbort, { once: true })
+
+  // Don't rely on the SDK to honour the signal: settle as soon as it fires
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true })
+  })
+
+  touch()
+  try {
+    return await Promise.race([run(controller.signal, touch), aborted])
+  } catch (error) {
+    if (timedOut) throw new GenerationTimeoutError(timeoutMs)
+    if (outer?.aborted) throw new GenerationCancelledError()
+    throw error
+  } finally {
+    clearTimeout(timer)
+    outer?.removeEventListener('abort', onAbort)
+  }
+}
+
+/** Sends one object request, retrying transient failures with exponential backoff. */
+async function requestObject(prompt: string, schema: Record<string, unknown>, options: RequestOptions) {
+  const { client } = options
+  if (!client) throw new Error('AI requests need a client; use the provider from createBlinkGenerationProvider')
+  const config = { ...defaultGenerationConfig, ...options.config }
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await withTimeout(config.timeoutMs, options.signal, (signal, touch) => {
+        const request = { prompt, schema, signal }
+        const { onPartial } = options
+        return onPartial
+          ? client.streamObject(request, (partial) => {
+            touch()
+            onPartial(partial)
+          })
+          : client.generateObject(request)
+      })
+    } catch (error) {
+      const kind = classifyGenerationError(error)
+      if (!isTransientError(kind) || retry >= config.maxRetries) throw error
+
+      const delay = config.retryDelayMs * 2 ** retry
+      console.warn(`AI request failed (${kind}), retrying in ${delay}ms (${retry + 1}/${config.maxRetries}):`, error)
+      await sleep(delay, options.signal)
+    }
+  }
+}
+
+/**
+ * Generates an object and validates it against the schema (and `check`).
+ * Failing responses are sent back to the model with their field errors for
+ * repair; if every attempt fails, the last ProfileValidationError is thrown.
+ */
+export async function generateValidated<T>(prompt: string, schema: z.ZodType<T>, options: GenerateOptions<T> = {}): Promise<T> {
+  const jsonSchema = toGenerationSchema(schema)
+  let attemptPrompt = prompt
+  let lastError: ProfileValidationError | null = null
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { object } = await requestObject(attemptPrompt, jsonSchema, options)
+
+    try {
+      const value = parseWithSchema(schema, object)
+      const checkErrors = options.check?.(value) ?? []
+      if (checkErrors.length === 0) return value
+      if (attempt === MAX_ATTEMPTS && options.fallback) {
+        console.warn('Generated object still failed checks, applying fallback:', checkErrors)
+        return options.fallback(value)
+      }
+      throw new ProfileValidationError(checkErrors)
+    } catch (error) {
+      if (!(error instanceof ProfileValidationError)) throw error
+      console.warn(`Generated object failed validation (attempt ${attempt}/${MAX_ATTEMPTS}):`, error.fieldErrors)
+      lastError = error
+      attemptPrompt = buildRepairPrompt(prompt, object, error)
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Generates a full profile. Locked values are sent as hard constraints,
+ * checked on the response, and forced in if the model keeps ignoring them.
+ */
+export async function generateValidatedProfile(
+  businessInfo: BusinessInfo,
+  mode: ProfileMode,
+  locks: FieldLocks = {},
+  request: RequestOptions = {}
+): Promise<CustomerProfile> {
+  return generateValidated<CustomerProfile>(buildProfilePrompt(businessInfo, mode, locks), PROFILE_MODE_SCHEMAS[mode], {
+    ...request,
+    check: (profile) => checkLocks(profile, locks),
+    fallback: (profile) => applyLocks(profile, locks)
+  })
+}
+
+export interface GeneratedPersona {
+  segment: PersonaSegment
+  customerProfile: CustomerProfile
+}
+
+/**
+ * Generates `count` personas for distinct customer segments of the same
+ * business. Sets whose personas share a name or segment are sent back for repair;
+ * stories still told under another name are renamed after the persona.
+ */
+export async function generatePersonaSet(
+  businessInfo: BusinessInfo,
+  mode: ProfileMode,
+  count: number,
+  request: RequestOptions = {}
+): Promise<GeneratedPersona[]> {
+  const prompt = `
+    ${buildProfilePrompt(businessInfo, mode)}
+
+    Instead of a single profile, create ${count} distinct customer personas, one for each of the ${count} most important customer segments this business serves.
+    Give each persona a memorable name, a short segment label, and a note on how it differs from the others in the set.
+    Use the same name for the persona's story.
+    The personas should clearly differ in who they are and why they buy; do not create variations of the same customer.
+  `
+
+  const setSchema = z.object({
+    personas: z.array(z.object({
+      segment: personaSegmentSchema,
+      customerProfile: PROFILE_MODE_SCHEMAS[mode]
+    })).length(count)
+  })
+  const result = await generateValidated(prompt, setSchema, {
+    ...request,
+    check: (result) => [
+      ...checkDistinctSegments(result.personas.map(persona => persona.segment)),
+      ...result.personas.flatMap(({ segment, customerProfile }, index) => customerProfile.narrative.name === segment.name
+        ? []
+        : [{ path: `personas.${index}.customerProfile.narrative.name`, message: `Must match the persona name "${segment.name}"` }])
+    ],
+    // A story told under another name is easily renamed; personas that overlap are not usable
+    fallback: (result) => {
+      const overlaps = checkDistinctSegments(result.personas.map(persona => persona.segment))
+      if (overlaps.length > 0) throw new ProfileValidationError(overlaps)
+      return {
+        personas: result.personas.map(persona => ({
+          ...persona,
+          customerProfile: { ...persona.customerProfile, narrative: { ...persona.customerProfile.narrative, name: persona.segment.name } }
+        }))
+      }
+    }
+  })
+  return result.personas
+}
+
+/**
+ * Re-generates one section of an existing profile. The rest of the profile
+ * is passed as context so the new section stays consistent with it.
+ */
+export async function regenerateProfileSection<K extends ProfileSectionKey>(
+  businessInfo: BusinessInfo,
+  profile: CustomerProfile,
+  section: K,
+  locks: FieldLocks = {},
+  request: RequestOptions = {}
+): Promise<CustomerProfile[K]> {
+  const { [section]: current, ...rest } = profile
+  const sectionLocks = locksForSection(locks, section)
+  const prompt = `
+    ${buildProfilePrompt(businessInfo, getProfileMode(profile), sectionLocks)}
+
+    A customer profile has already been created. Keep it as it is and ${current === undefined ? 'write' : 'rewrite'} only the "${getSectionTitle(section)}" section (the "${section}" field).
+    The new section must be consistent with the rest of the profile${current === undefined ? '.' : ', but offer a fresh take rather than repeating the current version.'}
+
+    Rest of the profile:
+    ${JSON.stringify(rest, null, 2)}
+    ${current === undefined ? '' : `
+    Current "${section}" (to be replaced):
+    ${JSON.stringify(current, null, 2)}`}
+  `
+
+  // Typed by the section's value, as a computed key does not keep its name
+  const shape: Record<string, z.ZodType<NonNullable<CustomerProfile[K]>>> = { [section]: profileSectionSchemas[section] }
+  const sectionSchema = z.object(shape)
+  const merge = (result: z.infer<typeof sectionSchema>) => ({ ...profile, [section]: result[section] })
+  const result = await generateValidated(prompt, sectionSchema, {
+    ...request,
+    check: (result) => checkLocks(merge(result), sectionLocks),
+    fallback: (result) => ({ [section]: applyLocks(merge(result), sectionLocks)[section] ?? result[section] })
+  })
+  return result[section]
+}
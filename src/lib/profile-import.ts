@@ -0,0 +1,78 @@
+import { migrateProfileExport, ProfileMigrationError } from './profile-migrations'
+import { personasFromExport } from './profile-personas'
+import { PROFILE_SCHEMA_VERSION } from './profile-schema'
+import type { BusinessInfo, CustomerProfile, ProfileExport, SavedProfile } from '../types/profile'
+
+export type ConflictResolution = 'replace' | 'keep-both' | 'skip'
+
+export class ProfileImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProfileImportError'
+  }
+}
+
+/** Parses and validates the contents of a file produced by the JSON export. */
+export function parseProfileExportFile(text: string): ProfileExport {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new ProfileImportError('File is not valid JSON')
+  }
+
+  try {
+    return migrateProfileExport(raw)
+  } catch (error) {
+    if (error instanceof ProfileMigrationError) {
+      throw new ProfileImportError(`Not a customer profile export: ${error.message}`)
+    }
+    throw error
+  }
+}
+
+// Parsing keeps the key order of the file, so keys are sorted to make
+// profiles written in a different order compare equal
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (typeof value !== 'object' || value === null) return value
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)).map(([key, item]) => [key, sortKeys(item)]))
+}
+
+function fingerprint(businessInfo: BusinessInfo, customerProfiles: CustomerProfile[]) {
+  return JSON.stringify([
+    businessInfo.visionStatement.trim(),
+    businessInfo.missionStatement.trim(),
+    businessInfo.businessDescription.trim(),
+    businessInfo.targetMarket.trim(),
+    sortKeys(customerProfiles)
+  ])
+}
+
+function exportFingerprint(exported: ProfileExport) {
+  return fingerprint(exported.businessInfo, personasFromExport(exported).map(persona => persona.customerProfile))
+}
+
+/** Finds a saved profile with the same business info and generated personas. */
+export function findImportConflict(exported: ProfileExport, savedProfiles: SavedProfile[]) {
+  const target = exportFingerprint(exported)
+  return savedProfiles.find(profile => fingerprint(profile, profile.personas.map(persona => persona.customerProfile)) === target)
+}
+
+/** Finds an export with the same business info and generated personas, such as a copy of the file in the same import. */
+export function findDuplicateExport<T extends { exported?: ProfileExport }>(exported: ProfileExport, others: T[]) {
+  const target = exportFingerprint(exported)
+  return others.find(other => other.exported && exportFingerprint(other.exported) === target)
+}
+
+export function savedProfileFromExport(exported: ProfileExport, profileName: string): SavedProfile {
+  return {
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    profileName,
+    ...exported.businessInfo,
+    personas: personasFromExport(exported),
+    antiPersona: exported.antiPersona,
+    createdAt: new Date().toISOString()
+  }
+}
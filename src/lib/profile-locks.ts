@@ -0,0 +1,112 @@
+import {
+  PROFILE_FIELDS,
+  getFieldDefinition,
+  getProfileField,
+  getSectionOfField,
+  setProfileField,
+  type ProfileFieldPath,
+  type ProfileFieldValue,
+  type ProfileSectionKey
+} from './profile-fields'
+import type { CustomerProfile, ProfileFieldError } from './profile-schema'
+
+/**
+ * Values pinned by the user. A text field locks its whole value; a list
+ * field locks individual items, which must appear in any regenerated list.
+ */
+export type FieldLocks = Partial<Record<ProfileFieldPath, ProfileFieldValue>>
+
+export function hasLocks(locks: FieldLocks) {
+  return Object.keys(locks).length > 0
+}
+
+export function isLocked(locks: FieldLocks, path: ProfileFieldPath, item?: string) {
+  const locked = locks[path]
+  if (locked === undefined) return false
+  return Array.isArray(locked) && item !== undefined ? locked.includes(item) : true
+}
+
+export function countLocks(locks: FieldLocks) {
+  return Object.values(locks).reduce((count, value) => count + (Array.isArray(value) ? value.length : 1), 0)
+}
+
+/** Locks or unlocks a text field, or a single item of a list field. */
+export function toggleLock(locks: FieldLocks, path: ProfileFieldPath, value: string, item?: string): FieldLocks {
+  const { [path]: current, ...rest } = locks
+
+  if (item === undefined) {
+    return current === undefined ? { ...locks, [path]: value } : rest
+  }
+
+  const items = Array.isArray(current) ? current : []
+  const next = items.includes(item) ? items.filter(i => i !== item) : [...items, item]
+  return next.length > 0 ? { ...rest, [path]: next } : rest
+}
+
+/** Keeps locks in step with a hand edit of the field they belong to. */
+export function updateLocksForEdit(locks: FieldLocks, path: ProfileFieldPath, value: ProfileFieldValue): FieldLocks {
+  const current = locks[path]
+  if (current === undefined) return locks
+  if (!Array.isArray(current)) return { ...locks, [path]: value }
+
+  const { [path]: _removed, ...rest } = locks
+  const kept = current.filter(item => (value as string[]).includes(item))
+  return kept.length > 0 ? { ...rest, [path]: kept } : rest
+}
+
+export function locksForSection(locks: FieldLocks, section: ProfileSectionKey): FieldLocks {
+  return Object.fromEntries(
+    Object.entries(locks).filter(([path]) => getSectionOfField(path as ProfileFieldPath) === section)
+  ) as FieldLocks
+}
+
+/** Locks every field of the given sections, e.g. to keep sections that were already generated. */
+export function lockSections(sections: Partial<CustomerProfile>): FieldLocks {
+  return Object.fromEntries(PROFILE_FIELDS
+    .filter(field => getSectionOfField(field.path) in sections)
+    .map(field => [field.path, getProfileField(sections as CustomerProfile, field.path)])) as FieldLocks
+}
+
+/** Hard constraints for the generation prompt, or an empty string when nothing is locked. */
+export function describeLocks(locks: FieldLocks) {
+  const lines = Object.entries(locks).map(([path, value]) => Array.isArray(value)
+    ? `- "${path}" must include these items word for word: ${value.map(item => JSON.stringify(item)).join(', ')}`
+    : `- "${path}" must be exactly ${JSON.stringify(value)}`)
+
+  if (lines.length === 0) return ''
+  return `
+    The user has locked the following values. These are hard constraints: use them exactly as given and build the rest of the profile around them.
+    ${lines.join('\n    ')}
+  `
+}
+
+export function checkLocks(profile: CustomerProfile, locks: FieldLocks): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = []
+  for (const [path, locked] of Object.entries(locks) as [ProfileFieldPath, ProfileFieldValue][]) {
+    const actual = getProfileField(profile, path)
+    if (Array.isArray(locked)) {
+      const missing = locked.filter(item => !(actual as string[]).includes(item))
+      if (missing.length > 0) {
+        errors.push({ path, message: `Missing locked ${getFieldDefinition(path).label.toLowerCase()}: ${missing.join('; ')}` })
+      }
+    } else if (actual !== locked) {
+      errors.push({ path, message: `Must be the locked value "${locked}"` })
+    }
+  }
+  return errors
+}
+
+/** Forces locked values into a profile, keeping the generated order where possible. */
+export function applyLocks(profile: CustomerProfile, locks: FieldLocks): CustomerProfile {
+  let result = profile
+  for (const [path, locked] of Object.entries(locks) as [ProfileFieldPath, ProfileFieldValue][]) {
+    if (Array.isArray(locked)) {
+      const actual = getProfileField(result, path) as string[]
+      const missing = locked.filter(item => !actual.includes(item))
+      result = setProfileField(result, path, [...missing, ...actual])
+    } else {
+      result = setProfileField(result, path, locked)
+    }
+  }
+  return result
+}
@@ -0,0 +1,42 @@
+import type { ProfileReport, ReportBlock } from './profile-report'
+
+// Generated text is one paragraph per value; line breaks inside it would end a list item or table row
+function inline(text: string) {
+  return text.replace(/\s*\n\s*/g, ' ').trim()
+}
+
+function tableCell(text: string) {
+  return inline(text).replace(/\|/g, '\\|')
+}
+
+function renderBlock(block: ReportBlock) {
+  const label = 'label' in block && block.label ? `**${block.label}**\n\n` : ''
+  switch (block.kind) {
+    case 'paragraph':
+      return `${label}${inline(block.text)}`
+    case 'quote':
+      return `> “${inline(block.text)}”`
+    case 'list':
+      return `${label}${block.items.map(item => `- ${inline(item)}`).join('\n')}`
+    case 'terms':
+      return `${label}${block.items.map(({ term, text }) => text ? `- **${inline(term)}**: ${inline(text)}` : `- **${inline(term)}**`).join('\n')}`
+    case 'table':
+      return ['| Attribute | Details |', '| --- | --- |', ...block.rows.map(row => `| ${tableCell(row.label)} | ${tableCell(row.value)} |`)].join('\n')
+  }
+}
+
+/** Markdown that pastes into Notion, Confluence and GitHub with its headings, lists and tables intact. */
+export function renderReportMarkdown(report: ProfileReport) {
+  const chapters = report.chapters.map(chapter => [
+    `## ${chapter.title}`,
+    ...(chapter.subtitle ? [`_${chapter.subtitle}_`] : []),
+    ...chapter.sections.map(section => [`### ${section.title}`, ...section.blocks.map(renderBlock)].join('\n\n'))
+  ].join('\n\n'))
+
+  return `# ${report.title}
+
+_Generated ${report.generatedAt.toLocaleDateString()}_
+
+${chapters.join('\n\n')}
+`
+}
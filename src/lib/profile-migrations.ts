@@ -0,0 +1,116 @@
+import type { z } from 'zod'
+import {
+  PROFILE_SCHEMA_VERSION,
+  profileExportSchema,
+  savedProfileSchema,
+  type ProfileExport,
+  type SavedProfile
+} from './profile-schema'
+
+type UnknownRecord = Record<string, unknown>
+
+/** Upgrades a record from version N to N + 1 (the version field is set by the pipeline). */
+type Migration = (record: UnknownRecord) => UnknownRecord
+
+export class ProfileMigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProfileMigrationError'
+  }
+}
+
+// Records written before versioning was introduced have no `schemaVersion`
+// and are treated as version 1.
+const LEGACY_VERSION = 1
+
+const savedProfileMigrations: Record<number, Migration> = {
+  1: (record) => ({
+    ...record,
+    id: String(record.id ?? ''),
+    profileName: record.profileName || 'Untitled profile',
+    targetMarket: record.targetMarket ?? '',
+    createdAt: record.createdAt ?? new Date(0).toISOString()
+  }),
+  2: (record) => ({ ...record, editedFields: [] }),
+  3: (record) => ({ ...record, lockedFields: {} }),
+  4: (record) => ({ ...record, refinementChat: [] }),
+  5: ({ customerProfile, editedFields, lockedFields, refinementChat, ...record }) => ({
+    ...record,
+    personas: [{ id: '1', customerProfile, editedFields, lockedFields, refinementChat }]
+  }),
+  6: (record) => ({
+    ...record,
+    personas: (record.personas as UnknownRecord[]).map(persona => ({ ...persona, rationales: {} }))
+  }),
+  // v8 added B2B profiles; existing profiles are all B2C and keep their shape
+  7: (record) => record,
+  // v9 added the anti-persona, which older records simply do not have
+  8: (record) => record,
+  // v10 added the persona story, which older profiles are left without
+  9: (record) => record
+}
+
+const profileExportMigrations: Record<number, Migration> = {
+  1: (record) => ({
+    ...record,
+    businessInfo: {
+      ...(record.businessInfo as UnknownRecord),
+      targetMarket: (record.businessInfo as UnknownRecord | undefined)?.targetMarket ?? ''
+    }
+  }),
+  2: (record) => ({ ...record, editedFields: [] }),
+  3: (record) => ({ ...record, lockedFields: {} }),
+  // v5 only added the refinement chat to saved profiles
+  4: (record) => record,
+  // v6 added persona sets; single-profile exports keep their shape
+  5: (record) => record,
+  6: (record) => Array.isArray(record.personas)
+    ? { ...record, personas: (record.personas as UnknownRecord[]).map(persona => ({ ...persona, rationales: {} })) }
+    : { ...record, rationales: {} },
+  7: (record) => record,
+  8: (record) => record,
+  9: (record) => record
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function runMigrations<T>(raw: unknown, migrations: Record<number, Migration>, schema: z.ZodType<T>): T {
+  if (!isRecord(raw)) {
+    throw new ProfileMigrationError('Record is not an object')
+  }
+
+  let version = raw.schemaVersion === undefined ? LEGACY_VERSION : Number(raw.schemaVersion)
+  if (!Number.isInteger(version) || version < LEGACY_VERSION) {
+    throw new ProfileMigrationError(`Unknown schema version "${raw.schemaVersion}"`)
+  }
+  if (version > PROFILE_SCHEMA_VERSION) {
+    throw new ProfileMigrationError(`Created by a newer version of the app (schema v${version})`)
+  }
+
+  let record = raw
+  while (version < PROFILE_SCHEMA_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) {
+      throw new ProfileMigrationError(`No migration from schema v${version}`)
+    }
+    version++
+    record = { ...migrate(record), schemaVersion: version }
+  }
+
+  const result = schema.safeParse(record)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new ProfileMigrationError(`Invalid after migration to v${PROFILE_SCHEMA_VERSION} (${issues.join('; ')})`)
+  }
+  return result.data
+}
+
+export function migrateSavedProfile(raw: unknown): SavedProfile {
+  return runMigrations(raw, savedProfileMigrations, savedProfileSchema)
+}
+
+export function migrateProfileExport(raw: unknown): ProfileExport {
+  return runMigrations(raw, profileExportMigrations, profileExportSchema)
+}
@@ -0,0 +1,51 @@
+import type { BusinessInfo, CustomerProfile } from './profile-schema'
+
+/**
+ * Who the customer is: a person buying for themselves (B2C), or a company
+ * buying through a committee (B2B). B2B profiles swap demographics for
+ * firmographics and add the buying committee.
+ */
+export type ProfileMode = 'b2c' | 'b2b'
+
+export const PROFILE_MODES: { key: ProfileMode, label: string, description: string }[] = [
+  { key: 'b2c', label: 'Consumers (B2C)', description: 'People buying for themselves or their households' },
+  { key: 'b2b', label: 'Businesses (B2B)', description: 'Companies buying through a team of decision makers' }
+]
+
+export function getProfileModeLabel(mode: ProfileMode) {
+  return PROFILE_MODES.find(option => option.key === mode)!.label
+}
+
+// Words that say who the buyer is. Ones used both ways, such as "clients" or
+// "professionals", are left out.
+const BUSINESS_TERMS = /\b(?:b2b|businesses|companies|enterprises?|smbs?|startups|teams|organi[sz]ations|agencies|employers|firms|departments|procurement|saas)\b/gi
+
+const CONSUMER_TERMS = /\b(?:b2c|consumers?|individuals|people|families|parents|moms|mums|dads|women|men|kids|children|shoppers|homeowners|retirees|couples|households|patients|locals|students)\b/gi
+
+export interface ProfileModeDetection {
+  mode: ProfileMode
+  /** The words the guess was based on, for showing the user why. */
+  signals: string[]
+}
+
+/** Guesses B2B or B2C from how the inputs describe the customers. Ties go to B2C. */
+export function detectProfileMode(businessInfo: BusinessInfo): ProfileModeDetection {
+  const text = Object.values(businessInfo).join(' ')
+  const business = (text.match(BUSINESS_TERMS) ?? []).map(term => term.toLowerCase())
+  const consumer = (text.match(CONSUMER_TERMS) ?? []).map(term => term.toLowerCase())
+  return business.length > consumer.length
+    ? { mode: 'b2b', signals: [...new Set(business)] }
+    : { mode: 'b2c', signals: [...new Set(consumer)] }
+}
+
+export function getProfileMode(profile: Pick<CustomerProfile, 'firmographics'>): ProfileMode {
+  return profile.firmographics ? 'b2b' : 'b2c'
+}
+
+/** Committee members are written "Role: concerns"; entries without a colon are all role. */
+export function splitCommitteeMember(member: string) {
+  const colon = member.indexOf(':')
+  return colon === -1
+    ? { role: member.trim(), concerns: '' }
+    : { role: member.slice(0, colon).trim(), concerns: member.slice(colon + 1).trim() }
+}
@@ -0,0 +1,554 @@
+import type { jsPDF } from 'jspdf'
+import { ANTI_PERSONA_LISTS } from './anti-persona'
+import { brandTextColor, isLightColor, mixWithWhite, type ExportBranding } from './export-branding'
+import {
+  getFieldDefinition,
+  getModeSections,
+  getProfileField,
+  getSectionFields,
+  WIDE_SECTIONS,
+  type ProfileFieldPath,
+  type ProfileSectionKey
+} from './profile-fields'
+import { getProfileMode, getProfileModeLabel, splitCommitteeMember } from './profile-mode'
+import { getPersonaTitle, isPersonaSet } from './profile-personas'
+import { rasterizeImage, rasterizePersonaAvatars, type RasterImage } from './raster-image'
+import type { AntiPersona, BusinessInfo, CustomerProfile, Persona } from './profile-schema'
+
+/**
+ * Lays out the branded PDF report in the browser: a cover page, the
+ * business information, and each persona's cards arranged as on step 3.
+ * All sizes are in millimetres on A4.
+ */
+
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const MARGIN = 18
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN
+// Content stops here, leaving room for the footer
+const CONTENT_BOTTOM = PAGE_HEIGHT - 22
+const GAP = 6
+const CARD_PADDING = 6
+const MM_PER_POINT = 0.3528
+const LINE_HEIGHT_FACTOR = 1.35
+
+const AVATAR_SIZE = 34
+const AVATAR_PIXELS = 360
+const LOGO_PIXELS = 600
+
+const INK = '#1f2937'
+const MUTED = '#6b7280'
+const BORDER = '#e5e7eb'
+const DESTRUCTIVE = '#ef4444'
+const WHITE = '#ffffff'
+
+interface TextStyle {
+  size: number
+  font?: 'normal' | 'bold' | 'italic'
+  color?: string
+}
+
+const BODY: TextStyle = { size: 10, color: MUTED }
+const LABEL: TextStyle = { size: 10, font: 'bold' }
+const CARD_TITLE: TextStyle = { size: 12, font: 'bold' }
+const CARD_TITLE_HEIGHT = lineHeight(CARD_TITLE.size) + 2
+
+/** A slice of a card's content, measured before anything is drawn so cards can be sized and split. */
+interface Block {
+  height: number
+  draw: (x: number, y: number) => void
+  spacer?: boolean
+}
+
+interface CardSpec {
+  title: string
+  /** Builds the content for the card's inner width. */
+  blocks: (width: number) => Block[]
+}
+
+interface Layout {
+  doc: jsPDF
+  branding: ExportBranding
+  /** Where the next card goes on the current page. */
+  y: number
+}
+
+type ChipVariant = 'default' | 'secondary' | 'outline'
+
+type ListStyle =
+  | { kind: 'bullets', color: 'destructive' | 'primary' | 'accent' }
+  | { kind: 'chips', variant: ChipVariant }
+  | { kind: 'members' }
+
+// The same badge and bullet styles the step-3 cards use
+const LIST_STYLES: Partial<Record<ProfileFieldPath, ListStyle>> = {
+  'firmographics.techStack': { kind: 'chips', variant: 'outline' },
+  'psychographics.values': { kind: 'chips', variant: 'secondary' },
+  'psychographics.interests': { kind: 'chips', variant: 'outline' },
+  painPoints: { kind: 'bullets', color: 'destructive' },
+  motivations: { kind: 'bullets', color: 'primary' },
+  goals: { kind: 'bullets', color: 'accent' },
+  communicationChannels: { kind: 'chips', variant: 'default' },
+  'buyingCommittee.decisionMakers': { kind: 'chips', variant: 'default' },
+  'buyingCommittee.members': { kind: 'members' },
+  'buyingBehavior.decisionFactors': { kind: 'chips', variant: 'secondary' }
+}
+
+function lineHeight(size: number) {
+  return size * MM_PER_POINT * LINE_HEIGHT_FACTOR
+}
+
+function setStyle(doc: jsPDF, { size, font = 'normal', color = INK }: TextStyle) {
+  doc.setFont('helvetica', font)
+  doc.setFontSize(size)
+  doc.setTextColor(color)
+}
+
+/** White or ink, whichever reads better on the brand color. */
+function textColorOn(hex: string) {
+  return isLightColor(hex) ? INK : WHITE
+}
+
+function spacer(height: number): Block {
+  return { height, draw: () => {}, spacer: true }
+}
+
+// Spacing only belongs between content, not at the edges of a card
+function trimSpacers(blocks: Block[]) {
+  let start = 0
+  let end = blocks.length
+  while (start < end && blocks[start].spacer) start++
+  while (end > start && blocks[end - 1].spacer) end--
+  return blocks.slice(start, end)
+}
+
+function totalHeight(blocks: Block[]) {
+  return blocks.reduce((sum, block) => sum + block.height, 0)
+}
+
+function textBlocks(doc: jsPDF, text: string, width: number, style: TextStyle, indent = 0): Block[] {
+  setStyle(doc, style)
+  const lines: string[] = doc.splitTextToSize(text, width - indent)
+  return lines.map(line => ({
+    height: lineHeight(style.size),
+    draw: (x, y) => {
+      setStyle(doc, style)
+      doc.text(line, x + indent, y, { baseline: 'top' })
+    }
+  }))
+}
+
+function bulletBlocks(doc: jsPDF, items: string[], width: number, bulletColor: string, style = BODY): Block[] {
+  return items.flatMap(item => {
+    const [first, ...rest] = textBlocks(doc, item, width, style, 5)
+    const bulleted: Block = {
+      height: first.height,
+      draw: (x, y) => {
+        first.draw(x, y)
+        setStyle(doc, { size: style.size, font: 'bold', color: bulletColor })
+        doc.text('•', x, y, { baseline: 'top' })
+      }
+    }
+    return [bulleted, ...rest, spacer(1.5)]
+  })
+}
+
+function memberBlocks(doc: jsPDF, members: string[], width: number): Block[] {
+  return members.flatMap(member => {
+    const { role, concerns } = splitCommitteeMember(member)
+    return [
+      ...textBlocks(doc, role, width, LABEL),
+      ...(concerns ? textBlocks(doc, concerns, width, BODY) : []),
+      spacer(2)
+    ]
+  })
+}
+
+// Shortens text that would not fit on one line, so a chip never wraps
+function fitText(doc: jsPDF, text: string, width: number) {
+  if (doc.getTextWidth(text) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1)
+  return `${fitted.trimEnd()}…`
+}
+
+function chipBlocks(doc: jsPDF, items: string[], width: number, variant: ChipVariant, branding: ExportBranding): Block[] {
+  const style: TextStyle = {
+    size: 8.5,
+    font: 'bold',
+    color: variant === 'default' ? textColorOn(branding.primaryColor) : INK
+  }
+  const height = 6
+  const paddingX = 2.5
+  const gap = 1.5
+
+  setStyle(doc, style)
+  const rows: { text: string, width: number }[][] = [[]]
+  let rowWidth = 0
+  for (const item of items) {
+    const text = fitText(doc, item, width - 2 * paddingX)
+    const chipWidth = doc.getTextWidth(text) + 2 * paddingX
+    const row = rows[rows.length - 1]
+    if (row.length > 0 && rowWidth + gap + chipWidth > width) {
+      rows.push([{ text, width: chipWidth }])
+      rowWidth = chipWidth
+    } else {
+      row.push({ text, width: chipWidth })
+      rowWidth += (row.length > 1 ? gap : 0) + chipWidth
+    }
+  }
+
+  return rows.map(row => ({
+    height: height + gap,
+    draw: (x, y) => {
+      let left = x
+      for (const chip of row) {
+        doc.setLineWidth(0.3)
+        if (variant === 'default') {
+          doc.setFillColor(branding.primaryColor)
+          doc.roundedRect(left, y, chip.width, height, 3, 3, 'F')
+        } else if (variant === 'secondary') {
+          doc.setFillColor(mixWithWhite(branding.primaryColor, 0.85))
+          doc.roundedRect(left, y, chip.width, height, 3, 3, 'F')
+        } else {
+          doc.setDrawColor(BORDER)
+          doc.roundedRect(left, y, chip.width, height, 3, 3, 'S')
+        }
+        setStyle(doc, style)
+        doc.text(chip.text, left + paddingX, y + height / 2, { baseline: 'middle' })
+        left += chip.width + gap
+      }
+    }
+  }))
+}
+
+function fieldBlocks(doc: jsPDF, profile: CustomerProfile, path: ProfileFieldPath, width: number, branding: ExportBranding, withLabel: boolean): Block[] {
+  const value = getProfileField(profile, path)
+  const label = withLabel ? [...textBlocks(doc, getFieldDefinition(path).label, width, LABEL), spacer(1)] : []
+  if (typeof value === 'string') {
+    return [...label, ...textBlocks(doc, value, width, BODY)]
+  }
+
+  const style = LIST_STYLES[path] ?? { kind: 'bullets', color: 'primary' }
+  const bulletColors = { destructive: DESTRUCTIVE, primary: brandTextColor(branding.primaryColor), accent: brandTextColor(branding.accentColor) }
+  return [
+    ...label,
+    ...style.kind === 'chips'
+      ? chipBlocks(doc, value, width, style.variant, branding)
+      : style.kind === 'members'
+        ? memberBlocks(doc, value, width)
+        : bulletBlocks(doc, value, width, bulletColors[style.color])
+  ]
+}
+
+function sectionCard(doc: jsPDF, profile: CustomerProfile, section: { key: ProfileSectionKey, title: string }, branding: ExportBranding): CardSpec {
+  const paths = getSectionFields(section.key)
+  return {
+    title: section.title,
+    // Single-field sections are titled by the field already
+    blocks: (width) => paths.flatMap(path => [spacer(4), ...fieldBlocks(doc, profile, path, width, branding, paths.length > 1)])
+  }
+}
+
+function cardHeight(blocks: Block[]) {
+  return 2 * CARD_PADDING + CARD_TITLE_HEIGHT + totalHeight(blocks)
+}
+
+function drawCard(layout: Layout, x: number, width: number, height: number, title: string, blocks: Block[]) {
+  const { doc, branding } = layout
+  doc.setLineWidth(0.3)
+  doc.setDrawColor(BORDER)
+  doc.setFillColor(WHITE)
+  doc.roundedRect(x, layout.y, width, height, 2.5, 2.5, 'FD')
+  setStyle(doc, { ...CARD_TITLE, color: brandTextColor(branding.primaryColor) })
+  doc.text(title, x + CARD_PADDING, layout.y + CARD_PADDING, { baseline: 'top' })
+
+  let top = layout.y + CARD_PADDING + CARD_TITLE_HEIGHT
+  for (const block of blocks) {
+    block.draw(x + CARD_PADDING, top)
+    top += block.height
+  }
+}
+
+function addPage(layout: Layout) {
+  layout.doc.addPage()
+  layout.y = MARGIN
+}
+
+/** A full-width card, kept on one page when it fits on one and continued on the next otherwise. */
+function placeCard(layout: Layout, card: CardSpec) {
+  let remaining = trimSpacers(card.blocks(CONTENT_WIDTH - 2 * CARD_PADDING))
+  let title = card.title
+
+  const height = cardHeight(remaining)
+  if (layout.y + height > CONTENT_BOTTOM && height <= CONTENT_BOTTOM - MARGIN) addPage(layout)
+
+  while (remaining.length > 0) {
+    // A title with nothing under it moves to the next page
+    if (cardHeight(remaining.slice(0, 1)) > CONTENT_BOTTOM - layout.y) addPage(layout)
+
+    const available = CONTENT_BOTTOM - layout.y - cardHeight([])
+    let used = 0
+    let count = 0
+    while (count < remaining.length && used + remaining[count].height <= available) {
+      used += remaining[count].height
+      count++
+    }
+    const slice = trimSpacers(remaining.slice(0, Math.max(count, 1)))
+    const height = cardHeight(slice)
+    drawCard(layout, MARGIN, CONTENT_WIDTH, height, title, slice)
+    layout.y += height + GAP
+
+    remaining = trimSpacers(remaining.slice(Math.max(count, 1)))
+    title = `${card.title} (continued)`
+    if (remaining.length > 0) addPage(layout)
+  }
+}
+
+/** Up to two cards side by side, sharing a height as in the step-3 grid. */
+function placeCardRow(layout: Layout, cards: CardSpec[]) {
+  const width = (CONTENT_WIDTH - GAP) / 2
+  const contents = cards.map(card => trimSpacers(card.blocks(width - 2 * CARD_PADDING)))
+  const height = Math.max(...contents.map(cardHeight))
+
+  if (height > CONTENT_BOTTOM - MARGIN) {
+    cards.forEach(card => placeCard(layout, card))
+    return
+  }
+  if (layout.y + height > CONTENT_BOTTOM) addPage(layout)
+  contents.forEach((blocks, index) => drawCard(layout, MARGIN + index * (width + GAP), width, height, cards[index].title, blocks))
+  layout.y += height + GAP
+}
+
+function placeHeading(layout: Layout, title: string, kicker?: string) {
+  const { doc, branding } = layout
+  if (kicker) {
+    setStyle(doc, { size: 9, font: 'bold', color: brandTextColor(branding.accentColor) })
+    doc.text(kicker.toUpperCase(), MARGIN, layout.y, { baseline: 'top' })
+    layout.y += lineHeight(9)
+  }
+  setStyle(doc, { size: 20, font: 'bold' })
+  const lines: string[] = doc.splitTextToSize(title, CONTENT_WIDTH)
+  doc.text(lines, MARGIN, layout.y, { baseline: 'top' })
+  layout.y += lines.length * lineHeight(20) + 1
+  doc.setFillColor(branding.accentColor)
+  doc.rect(MARGIN, layout.y, 16, 1.2, 'F')
+  layout.y += 8
+}
+
+function placeImage(doc: jsPDF, image: RasterImage, x: number, y: number, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height)
+  doc.addImage(image.dataUrl, 'PNG', x, y, image.width * scale, image.height * scale)
+}
+
+// As in the app, a lone profile is not numbered
+function getTitle(personas: Persona[], index: number) {
+  return isPersonaSet(personas) ? getPersonaTitle(personas[index], index) : 'Your Customer'
+}
+
+function drawCover(layout: Layout, personas: Persona[], antiPersona: AntiPersona | undefined, logo: RasterImage | undefined, generatedAt: Date) {
+  const { doc, branding } = layout
+  const bandHeight = 125
+  const onPrimary = textColorOn(branding.primaryColor)
+
+  doc.setFillColor(branding.primaryColor)
+  doc.rect(0, 0, PAGE_WIDTH, bandHeight, 'F')
+  doc.setFillColor(branding.accentColor)
+  doc.rect(0, bandHeight, PAGE_WIDTH, 3, 'F')
+
+  // On a white plate, so logos drawn for light backgrounds stay legible
+  if (logo) {
+    const scale = Math.min(56 / logo.width, 22 / logo.height)
+    doc.setFillColor(WHITE)
+    doc.roundedRect(MARGIN, MARGIN, logo.width * scale + 8, logo.height * scale + 8, 2, 2, 'F')
+    placeImage(doc, logo, MARGIN + 4, MARGIN + 4, 56, 22)
+  }
+
+  let y = 62
+  setStyle(doc, { size: 10, font: 'bold', color: onPrimary })
+  doc.text('CUSTOMER PROFILE REPORT', MARGIN, y, { baseline: 'top' })
+  y += 8
+  setStyle(doc, { size: 30, font: 'bold', color: onPrimary })
+  const title: string[] = doc.splitTextToSize(isPersonaSet(personas) ? `${personas.length} Customer Personas` : 'Ideal Customer Profile', CONTENT_WIDTH)
+  doc.text(title, MARGIN, y, { baseline: 'top' })
+  y += title.length * lineHeight(30) + 4
+  setStyle(doc, { size: 12, color: onPrimary })
+  if (branding.companyName) {
+    doc.text(`Prepared by ${branding.companyName}`, MARGIN, y, { baseline: 'top' })
+    y += lineHeight(12)
+  }
+  doc.text(generatedAt.toLocaleDateString(), MARGIN, y, { baseline: 'top' })
+
+  layout.y = bandHeight + 18
+  setStyle(doc, { ...CARD_TITLE, color: brandTextColor(branding.primaryColor) })
+  doc.text('In This Report', MARGIN, layout.y, { baseline: 'top' })
+  layout.y += CARD_TITLE_HEIGHT + 2
+
+  const contents = [
+    'Business information',
+    ...personas.map((persona, index) => {
+      const name = persona.customerProfile.narrative?.name ?? getTitle(personas, index)
+      return persona.segment ? `${name}: ${persona.segment.label}` : name
+    }),
+    ...(antiPersona ? [`Anti-persona: ${antiPersona.name}`] : [])
+  ]
+  for (const block of bulletBlocks(doc, contents, CONTENT_WIDTH, brandTextColor(branding.accentColor), { size: 11, color: INK })) {
+    block.draw(MARGIN, layout.y)
+    layout.y += block.height
+  }
+
+  layout.y += 6
+  setStyle(doc, { size: 10, color: MUTED })
+  doc.text(`Customer type: ${getProfileModeLabel(getProfileMode(personas[0].customerProfile))}`, MARGIN, layout.y, { baseline: 'top' })
+}
+
+function placeBusinessInformation(layout: Layout, businessInfo: BusinessInfo) {
+  const { doc } = layout
+  const paragraph = (text: string): CardSpec['blocks'] => (width) => textBlocks(doc, text, width, BODY)
+
+  addPage(layout)
+  placeHeading(layout, 'Business Information')
+  placeCardRow(layout, [
+    { title: 'Vision Statement', blocks: paragraph(businessInfo.visionStatement) },
+    { title: 'Mission Statement', blocks: paragraph(businessInfo.missionStatement) }
+  ])
+  placeCard(layout, { title: 'Business Description', blocks: paragraph(businessInfo.businessDescription) })
+  placeCard(layout, { title: 'Target Market', blocks: paragraph(businessInfo.targetMarket || 'Not specified') })
+}
+
+/** The persona story card: avatar, name, quote and the day in the life. */
+function placeStoryCard(layout: Layout, persona: Persona, title: string, avatar: RasterImage) {
+  const { doc, branding } = layout
+  const profile = persona.customerProfile
+  const { narrative } = profile
+  const { segment } = persona
+  const innerWidth = CONTENT_WIDTH - 2 * CARD_PADDING
+  const sideWidth = innerWidth - AVATAR_SIZE - 6
+
+  const side = trimSpacers([
+    ...textBlocks(doc, narrative?.name ?? title, sideWidth, { size: 20, font: 'bold' }),
+    spacer(1.5),
+    ...chipBlocks(doc, [...(segment ? [segment.label] : []), getProfileModeLabel(getProfileMode(profile))], sideWidth, 'secondary', branding),
+    ...(narrative ? [spacer(1.5), ...textBlocks(doc, `“${narrative.quote}”`, sideWidth, { size: 12, font: 'italic', color: MUTED })] : []),
+    ...(segment ? [spacer(2), ...textBlocks(doc, segment.differentiator, sideWidth, BODY)] : [])
+  ])
+  const story = narrative
+    ? [spacer(5), ...textBlocks(doc, 'A Day in the Life', innerWidth, LABEL), spacer(1), ...textBlocks(doc, narrative.dayInTheLife, innerWidth, BODY)]
+    : []
+  const height = 2 * CARD_PADDING + Math.max(AVATAR_SIZE, totalHeight(side)) + totalHeight(story)
+
+  if (layout.y + height > CONTENT_BOTTOM) addPage(layout)
+  doc.setLineWidth(0.3)
+  doc.setDrawColor(mixWithWhite(branding.primaryColor, 0.7))
+  doc.setFillColor(mixWithWhite(branding.primaryColor, 0.94))
+  doc.roundedRect(MARGIN, layout.y, CONTENT_WIDTH, height, 2.5, 2.5, 'FD')
+
+  const x = MARGIN + CARD_PADDING
+  let top = layout.y + CARD_PADDING
+  placeImage(doc, avatar, x, top, AVATAR_SIZE, AVATAR_SIZE)
+  for (const block of side) {
+    block.draw(x + AVATAR_SIZE + 6, top)
+    top += block.height
+  }
+  top = Math.max(top, layout.y + CARD_PADDING + AVATAR_SIZE)
+  for (const block of story) {
+    block.draw(x, top)
+    top += block.height
+  }
+  layout.y += height + GAP
+}
+
+function placePersona(layout: Layout, personas: Persona[], index: number, avatar: RasterImage) {
+  const { doc, branding } = layout
+  const persona = personas[index]
+  const profile = persona.customerProfile
+  const title = getTitle(personas, index)
+
+  addPage(layout)
+  // The story card carries the name, so the heading names the segment
+  if (isPersonaSet(personas)) {
+    placeHeading(layout, persona.segment?.label ?? title, `Persona ${index + 1} of ${personas.length}`)
+  } else {
+    placeHeading(layout, 'Ideal Customer Profile')
+  }
+  placeStoryCard(layout, persona, title, avatar)
+
+  // The story is in the card above; the rest follow the step-3 order
+  const sections = getModeSections(getProfileMode(profile)).filter(section => section.key !== 'narrative' && profile[section.key] !== undefined)
+  const gridCards = sections.filter(section => !WIDE_SECTIONS.includes(section.key)).map(section => sectionCard(doc, profile, section, branding))
+  for (let start = 0; start < gridCards.length; start += 2) {
+    placeCardRow(layout, gridCards.slice(start, start + 2))
+  }
+  sections.filter(section => WIDE_SECTIONS.includes(section.key)).forEach(section => placeCard(layout, sectionCard(doc, profile, section, branding)))
+}
+
+function placeAntiPersona(layout: Layout, antiPersona: AntiPersona) {
+  const { doc, branding } = layout
+  const bulletColors = { reasons: DESTRUCTIVE, disqualifyingSignals: brandTextColor(branding.primaryColor), redFlagPhrases: brandTextColor(branding.accentColor) }
+
+  addPage(layout)
+  placeHeading(layout, antiPersona.name, 'Anti-persona')
+  placeCard(layout, {
+    title: 'Who They Are',
+    blocks: (width) => [
+      ...textBlocks(doc, antiPersona.description, width, BODY),
+      spacer(3),
+      ...textBlocks(doc, 'Why they look attractive', width, LABEL),
+      spacer(1),
+      ...textBlocks(doc, antiPersona.appeal, width, BODY)
+    ]
+  })
+  for (const { key, label } of ANTI_PERSONA_LISTS) {
+    const items = key === 'redFlagPhrases' ? antiPersona[key].map(phrase => `“${phrase}”`) : antiPersona[key]
+    const style = key === 'redFlagPhrases' ? { ...BODY, font: 'italic' as const } : BODY
+    placeCard(layout, { title: label, blocks: (width) => bulletBlocks(doc, items, width, bulletColors[key], style) })
+  }
+}
+
+function drawFooters(layout: Layout) {
+  const { doc, branding } = layout
+  const pageCount = doc.getNumberOfPages()
+  // The cover has no footer, but still counts as page 1
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page)
+    doc.setLineWidth(0.4)
+    doc.setDrawColor(branding.primaryColor)
+    doc.line(MARGIN, PAGE_HEIGHT - 15, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 15)
+    setStyle(doc, { size: 8.5, color: MUTED })
+    doc.text(branding.companyName || 'Customer Profile Report', MARGIN, PAGE_HEIGHT - 12, { baseline: 'top' })
+    if (branding.pageNumbers) {
+      doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 12, { baseline: 'top', align: 'right' })
+    }
+  }
+}
+
+/** The branded PDF offered as "Export PDF". Built entirely in the browser. */
+export async function createProfilePdf(
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  antiPersona: AntiPersona | undefined,
+  branding: ExportBranding,
+  generatedAt = new Date()
+): Promise<Blob> {
+  // Loaded on demand: the library is large and most sessions never export a PDF
+  const [{ jsPDF }, avatars, logo] = await Promise.all([
+    import('jspdf'),
+    rasterizePersonaAvatars(personas, AVATAR_PIXELS),
+    branding.logo ? rasterizeImage(branding.logo, LOGO_PIXELS) : undefined
+  ])
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  doc.setProperties({
+    title: isPersonaSet(personas) ? 'Customer Personas' : 'Ideal Customer Profile',
+    author: branding.companyName
+  })
+  const layout: Layout = { doc, branding, y: MARGIN }
+
+  drawCover(layout, personas, antiPersona, logo, generatedAt)
+  placeBusinessInformation(layout, businessInfo)
+  personas.forEach((_, index) => placePersona(layout, personas, index, avatars[index]))
+  if (antiPersona) placeAntiPersona(layout, antiPersona)
+  drawFooters(layout)
+
+  return doc.output('blob')
+}
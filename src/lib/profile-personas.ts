@@ -0,0 +1,83 @@
+import {
+  PROFILE_SCHEMA_VERSION,
+  type AntiPersona,
+  type BusinessInfo,
+  type CustomerProfile,
+  type Persona,
+  type PersonaSegment,
+  type ProfileExport,
+  type ProfileFieldError
+} from './profile-schema'
+
+export const MIN_PERSONAS = 2
+export const MAX_PERSONAS = 6
+
+export function createPersona(customerProfile: CustomerProfile, segment?: PersonaSegment): Persona {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    segment,
+    customerProfile,
+    editedFields: [],
+    lockedFields: {},
+    rationales: {},
+    refinementChat: []
+  }
+}
+
+export function isPersonaSet(personas: Persona[]) {
+  return personas.length > 1
+}
+
+export function getPersonaTitle(persona: Persona, index: number) {
+  return persona.segment?.name ?? `Persona ${index + 1}`
+}
+
+/** Personas in a set must be told apart by both name and segment. */
+export function checkDistinctSegments(segments: PersonaSegment[]): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = []
+  const seen = { name: new Set<string>(), label: new Set<string>() }
+  segments.forEach((segment, index) => {
+    for (const key of ['name', 'label'] as const) {
+      const value = segment[key].trim().toLowerCase()
+      if (seen[key].has(value)) {
+        errors.push({ path: `personas.${index}.segment.${key}`, message: `Duplicates another persona's ${key} "${segment[key]}"` })
+      }
+      seen[key].add(value)
+    }
+  })
+  return errors
+}
+
+export function buildProfileExport(businessInfo: BusinessInfo, personas: Persona[], antiPersona?: AntiPersona): ProfileExport {
+  const schemaVersion = PROFILE_SCHEMA_VERSION
+  const generatedAt = new Date().toISOString()
+
+  if (!isPersonaSet(personas)) {
+    const [{ customerProfile, editedFields, lockedFields, rationales }] = personas
+    return { schemaVersion, generatedAt, businessInfo, customerProfile, editedFields, lockedFields, rationales, antiPersona }
+  }
+
+  return {
+    schemaVersion,
+    generatedAt,
+    businessInfo,
+    personas: personas.map(persona => ({
+      segment: persona.segment,
+      customerProfile: persona.customerProfile,
+      editedFields: persona.editedFields,
+      lockedFields: persona.lockedFields,
+      rationales: persona.rationales
+    })),
+    antiPersona
+  }
+}
+
+export function personasFromExport(exported: ProfileExport): Persona[] {
+  const entries = 'personas' in exported ? exported.personas : [exported]
+  return entries.map(entry => ({
+    ...createPersona(entry.customerProfile, 'segment' in entry ? entry.segment : undefined),
+    editedFields: entry.editedFields,
+    lockedFields: entry.lockedFields,
+    rationales: entry.rationales
+  }))
+}
@@ -0,0 +1,259 @@
+import type PptxGenJS from 'pptxgenjs'
+import { brandTextColor, hexWithoutHash, isLightColor, mixWithWhite, type ExportBranding } from './export-branding'
+import { isPersonaSet } from './profile-personas'
+import { buildProfileReport, type ReportBlock, type ReportChapter, type ReportSection } from './profile-report'
+import { rasterizeImage, rasterizePersonaAvatars, type RasterImage } from './raster-image'
+import type { AntiPersona, BusinessInfo, Persona } from './profile-schema'
+
+/**
+ * Writes the report as a slide deck for workshops: a title slide from the
+ * vision and mission, then for each persona an intro slide and one slide per
+ * profile section, grouped into a PowerPoint section per persona. Sizes are
+ * in inches on a 16:9 slide.
+ */
+
+type Slide = PptxGenJS.Slide
+type TextRun = PptxGenJS.TextProps
+
+const SLIDE_WIDTH = 13.333
+const SLIDE_HEIGHT = 7.5
+const MARGIN = 0.6
+const CONTENT_WIDTH = SLIDE_WIDTH - 2 * MARGIN
+const CONTENT_TOP = 1.75
+const CONTENT_HEIGHT = 5.05
+const GAP = 0.3
+const LABEL_COLUMN = 3.4
+const CELL_MARGIN = 0.12
+const AVATAR_PIXELS = 480
+const LOGO_PIXELS = 600
+const CONTENT_MASTER = 'PROFILE_CONTENT'
+const FONT = 'Calibri'
+const TEXT = '1F2937'
+const MUTED = '6B7280'
+const FONT_SIZES = [20, 18, 16, 14, 12, 11]
+
+interface DeckColors {
+  primary: string
+  primaryText: string
+  accentText: string
+  tint: string
+  /** Text on a primary-colored background. */
+  onPrimary: string
+}
+
+// PowerPoint only shrinks overflowing text once it is edited, so the size is
+// picked here from a rough count of the wrapped lines
+function fitFontSize(runs: TextRun[], width: number, height: number) {
+  const paragraphs = runs.reduce<number[]>((lengths, run, index) => {
+    const startsParagraph = index === 0 || runs[index - 1].options?.breakLine
+    const length = (run.text ?? '').length + (run.options?.bullet ? 4 : 0)
+    return startsParagraph ? [...lengths, length] : [...lengths.slice(0, -1), lengths[lengths.length - 1] + length]
+  }, [])
+  const fits = (size: number) => {
+    const charactersPerLine = width / (size / 72 * 0.52)
+    const lines = paragraphs.reduce((total, length) => total + Math.max(1, Math.ceil(length / charactersPerLine)), 0)
+    return lines * size * 1.2 / 72 + paragraphs.length * 6 / 72 <= height
+  }
+  return FONT_SIZES.find(fits) ?? FONT_SIZES[FONT_SIZES.length - 1]
+}
+
+function blockRuns(block: ReportBlock, colors: DeckColors, withLabel = true): TextRun[] {
+  const label: TextRun[] = withLabel && 'label' in block && block.label
+    ? [{ text: block.label, options: { bold: true, color: colors.primaryText, breakLine: true, paraSpaceBefore: 6 } }]
+    : []
+
+  switch (block.kind) {
+    case 'paragraph':
+      return [...label, { text: block.text, options: { breakLine: true, paraSpaceAfter: 8 } }]
+    case 'quote':
+      return [{ text: `“${block.text}”`, options: { italic: true, color: colors.accentText, breakLine: true, paraSpaceAfter: 8 } }]
+    case 'list':
+      return [...label, ...block.items.map(item => ({ text: item, options: { bullet: true, breakLine: true, paraSpaceAfter: 4 } }))]
+    case 'terms':
+      return [...label, ...block.items.flatMap(({ term, text }) => [
+        { text: term, options: { bold: true, bullet: true, breakLine: !text } },
+        ...(text ? [{ text: `: ${text}`, options: { breakLine: true, paraSpaceAfter: 4 } }] : [])
+      ])]
+    case 'table':
+      return [...block.rows.map(row => ({ text: `${row.label}: ${row.value}`, options: { breakLine: true } }))]
+  }
+}
+
+function addTable(slide: Slide, block: Extract<ReportBlock, { kind: 'table' }>, colors: DeckColors) {
+  const values = block.rows.map(row => ({ text: row.value, options: { breakLine: true } }))
+  const fontSize = fitFontSize(values, CONTENT_WIDTH - LABEL_COLUMN - 2 * CELL_MARGIN, CONTENT_HEIGHT - block.rows.length * 2 * CELL_MARGIN)
+  slide.addTable(block.rows.map(row => [
+    { text: row.label, options: { bold: true, fill: { color: colors.tint }, color: colors.primaryText } },
+    { text: row.value }
+  ]), {
+    x: MARGIN,
+    y: CONTENT_TOP,
+    w: CONTENT_WIDTH,
+    colW: [LABEL_COLUMN, CONTENT_WIDTH - LABEL_COLUMN],
+    fontFace: FONT,
+    fontSize,
+    color: TEXT,
+    border: { type: 'solid', pt: 1, color: 'E5E7EB' },
+    margin: CELL_MARGIN,
+    valign: 'middle'
+  })
+}
+
+// Sections of several labelled fields, such as psychographics, read best as a grid of cards
+function addCardGrid(slide: Slide, blocks: ReportBlock[], colors: DeckColors) {
+  const rows = Math.ceil(blocks.length / 2)
+  const height = (CONTENT_HEIGHT - GAP * (rows - 1)) / rows
+  // A last card without a neighbour takes the whole row
+  const widthOf = (index: number) => index === blocks.length - 1 && index % 2 === 0 ? CONTENT_WIDTH : (CONTENT_WIDTH - GAP) / 2
+  const contents = blocks.map(block => blockRuns(block, colors, false))
+  // One size for every card, so the grid looks even
+  const fontSize = Math.min(...contents.map((runs, index) => fitFontSize(runs, widthOf(index) - 0.4, height - 0.75)))
+
+  blocks.forEach((block, index) => {
+    const width = widthOf(index)
+    const x = MARGIN + (index % 2) * ((CONTENT_WIDTH + GAP) / 2)
+    const y = CONTENT_TOP + Math.floor(index / 2) * (height + GAP)
+    slide.addShape('roundRect', { x, y, w: width, h: height, rectRadius: 0.12, fill: { color: colors.tint }, line: { color: colors.tint } })
+    slide.addText('label' in block && block.label ? block.label : '', {
+      x: x + 0.2, y: y + 0.15, w: width - 0.4, h: 0.4, fontFace: FONT, fontSize: 14, bold: true, color: colors.primaryText, margin: 0
+    })
+    slide.addText(contents[index], {
+      x: x + 0.2, y: y + 0.6, w: width - 0.4, h: height - 0.75, fontFace: FONT, fontSize, color: TEXT, valign: 'top', margin: 0
+    })
+  })
+}
+
+function addSectionSlide(pptx: PptxGenJS, sectionTitle: string, chapter: ReportChapter, section: ReportSection, blocks: ReportBlock[], colors: DeckColors) {
+  const slide = pptx.addSlide({ masterName: CONTENT_MASTER, sectionTitle })
+  slide.addText(chapter.title.toUpperCase(), {
+    x: MARGIN, y: 0.4, w: CONTENT_WIDTH, h: 0.35, fontFace: FONT, fontSize: 12, bold: true, charSpacing: 1, color: colors.accentText, margin: 0
+  })
+  slide.addText(section.title, {
+    x: MARGIN, y: 0.8, w: CONTENT_WIDTH, h: 0.7, fontFace: FONT, fontSize: 30, bold: true, color: colors.primaryText, margin: 0
+  })
+
+  const [first] = blocks
+  if (blocks.length === 1 && first.kind === 'table') {
+    addTable(slide, first, colors)
+  } else if (blocks.length > 1 && blocks.every(block => 'label' in block && block.label)) {
+    addCardGrid(slide, blocks, colors)
+  } else {
+    const runs = blocks.flatMap(block => blockRuns(block, colors))
+    slide.addText(runs, {
+      x: MARGIN,
+      y: CONTENT_TOP,
+      w: CONTENT_WIDTH,
+      h: CONTENT_HEIGHT,
+      fontFace: FONT,
+      fontSize: fitFontSize(runs, CONTENT_WIDTH, CONTENT_HEIGHT),
+      color: TEXT,
+      valign: 'top',
+      margin: 0
+    })
+  }
+}
+
+function addTitleSlide(pptx: PptxGenJS, title: string, businessInfo: BusinessInfo, branding: ExportBranding, logo: RasterImage | undefined, generatedAt: Date, colors: DeckColors) {
+  const slide = pptx.addSlide({ sectionTitle: 'Overview' })
+  slide.addShape('rect', { x: 0, y: 0, w: SLIDE_WIDTH, h: 3.1, fill: { color: colors.primary }, line: { color: colors.primary } })
+  slide.addText(title, { x: MARGIN + 0.2, y: 0.9, w: CONTENT_WIDTH - 0.4, h: 1, fontFace: FONT, fontSize: 40, bold: true, color: colors.onPrimary, margin: 0 })
+  slide.addText(
+    branding.companyName ? `Prepared by ${branding.companyName} on ${generatedAt.toLocaleDateString()}` : `Generated ${generatedAt.toLocaleDateString()}`,
+    { x: MARGIN + 0.2, y: 1.95, w: CONTENT_WIDTH - 0.4, h: 0.5, fontFace: FONT, fontSize: 16, color: colors.onPrimary, margin: 0 }
+  )
+
+  const width = (CONTENT_WIDTH - 0.4 - GAP) / 2
+  const statements = [
+    { label: 'Vision', text: businessInfo.visionStatement },
+    { label: 'Mission', text: businessInfo.missionStatement }
+  ]
+  statements.forEach(({ label, text }, index) => {
+    slide.addText([
+      { text: label.toUpperCase(), options: { bold: true, fontSize: 13, charSpacing: 1, color: colors.accentText, breakLine: true, paraSpaceAfter: 6 } },
+      { text, options: { fontSize: fitFontSize([{ text }], width, 2.1), color: TEXT } }
+    ], { x: MARGIN + 0.2 + index * (width + GAP), y: 3.55, w: width, h: 2.6, fontFace: FONT, valign: 'top', margin: 0 })
+  })
+
+  if (logo) {
+    // Fitted inside the box without stretching
+    const scale = Math.min(2 / logo.width, 0.75 / logo.height)
+    slide.addImage({ data: logo.dataUrl, altText: 'Logo', x: SLIDE_WIDTH - MARGIN - logo.width * scale, y: 6.45, w: logo.width * scale, h: logo.height * scale })
+  }
+}
+
+function addPersonaIntro(pptx: PptxGenJS, sectionTitle: string, chapter: ReportChapter, eyebrow: string, avatar: RasterImage, colors: DeckColors) {
+  const slide = pptx.addSlide({ sectionTitle })
+  slide.background = { color: colors.primary }
+  slide.addImage({ data: avatar.dataUrl, x: 0.9, y: 1.9, w: 3.4, h: 3.4, rounding: true, altText: `Illustrated avatar of ${chapter.title}` })
+
+  const quote = chapter.persona?.customerProfile.narrative?.quote
+  slide.addText([
+    { text: eyebrow.toUpperCase(), options: { fontSize: 14, bold: true, charSpacing: 1, breakLine: true, paraSpaceAfter: 10 } },
+    { text: chapter.title, options: { fontSize: 40, bold: true, breakLine: true, paraSpaceAfter: 6 } },
+    ...(chapter.subtitle ? [{ text: chapter.subtitle, options: { fontSize: 18, breakLine: true, paraSpaceAfter: 24 } }] : []),
+    ...(quote ? [{ text: `“${quote}”`, options: { fontSize: 22, italic: true } }] : [])
+  ], { x: 4.9, y: 1.4, w: SLIDE_WIDTH - 4.9 - MARGIN - 0.2, h: 4.4, fontFace: FONT, color: colors.onPrimary, valign: 'middle', margin: 0 })
+}
+
+/** The slide deck offered as "Export PowerPoint". */
+export async function createProfilePptx(
+  businessInfo: BusinessInfo,
+  personas: Persona[],
+  antiPersona: AntiPersona | undefined,
+  branding: ExportBranding,
+  generatedAt = new Date()
+): Promise<Blob> {
+  const [{ default: PptxGenJS }, avatars, logo] = await Promise.all([
+    import('pptxgenjs'),
+    rasterizePersonaAvatars(personas, AVATAR_PIXELS),
+    branding.logo ? rasterizeImage(branding.logo, LOGO_PIXELS) : undefined
+  ])
+  const report = buildProfileReport(businessInfo, personas, antiPersona, generatedAt)
+  const colors: DeckColors = {
+    primary: hexWithoutHash(branding.primaryColor),
+    primaryText: hexWithoutHash(brandTextColor(branding.primaryColor)),
+    accentText: hexWithoutHash(brandTextColor(branding.accentColor)),
+    tint: hexWithoutHash(mixWithWhite(branding.primaryColor, 0.9)),
+    onPrimary: isLightColor(branding.primaryColor) ? TEXT : 'FFFFFF'
+  }
+
+  const pptx = new PptxGenJS()
+  pptx.layout = 'LAYOUT_WIDE'
+  pptx.title = report.title
+  if (branding.companyName) pptx.company = branding.companyName
+  pptx.defineSlideMaster({
+    title: CONTENT_MASTER,
+    background: { color: 'FFFFFF' },
+    objects: [
+      { rect: { x: 0, y: 0, w: 0.18, h: SLIDE_HEIGHT, fill: { color: colors.primary }, line: { color: colors.primary } } },
+      ...(branding.companyName ? [{
+        text: { text: branding.companyName, options: { x: MARGIN, y: 7, w: 6, h: 0.3, fontFace: FONT, fontSize: 10, color: MUTED, margin: 0 } }
+      }] : [])
+    ],
+    slideNumber: branding.pageNumbers
+      ? { x: SLIDE_WIDTH - MARGIN - 0.6, y: 7, w: 0.6, h: 0.3, fontFace: FONT, fontSize: 10, color: MUTED, align: 'right' }
+      : undefined
+  })
+
+  pptx.addSection({ title: 'Overview' })
+  addTitleSlide(pptx, report.title, businessInfo, branding, logo, generatedAt, colors)
+
+  // The title slide stands in for the business chapter, which always comes first
+  for (const [index, chapter] of report.chapters.slice(1).entries()) {
+    // Slides are filed by section title, so personas that share a name need numbering apart
+    const sectionTitle = `${index + 1}. ${chapter.title}`
+    pptx.addSection({ title: sectionTitle })
+    const personaIndex = chapter.persona ? personas.indexOf(chapter.persona) : -1
+    if (personaIndex >= 0) {
+      const eyebrow = isPersonaSet(personas) ? `Persona ${personaIndex + 1} of ${personas.length}` : 'Ideal Customer Profile'
+      addPersonaIntro(pptx, sectionTitle, chapter, eyebrow, avatars[personaIndex], colors)
+    }
+    for (const section of chapter.sections) {
+      // The intro slide already shows the persona's quote
+      const blocks = personaIndex >= 0 ? section.blocks.filter(block => block.kind !== 'quote') : section.blocks
+      if (blocks.length > 0) addSectionSlide(pptx, sectionTitle, chapter, section, blocks, colors)
+    }
+  }
+
+  return pptx.write({ outputType: 'blob' }) as Promise<Blob>
+}
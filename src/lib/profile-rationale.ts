@@ -0,0 +1,116 @@
+import { z } from 'zod'
+import { generateValidated, type RequestOptions } from './profile-generation'
+import { getPresentFields, getProfileField, PROFILE_FIELD_PATHS, type ProfileFieldPath } from './profile-fields'
+import {
+  fieldRationaleSchema,
+  type BusinessInfo,
+  type CustomerProfile,
+  type FieldRationale,
+  type ProfileFieldError,
+  type ProfileRationales
+} from './profile-schema'
+
+export const INPUT_LABELS: Record<keyof BusinessInfo, string> = {
+  visionStatement: 'Vision statement',
+  missionStatement: 'Mission statement',
+  businessDescription: 'Business description',
+  targetMarket: 'Target market'
+}
+
+export const CONFIDENCE_LABELS: Record<FieldRationale['confidence'], string> = {
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence'
+}
+
+const rationaleResponseSchema = z.object({
+  rationales: z.array(fieldRationaleSchema.extend({ path: z.enum(PROFILE_FIELD_PATHS) }))
+})
+
+type RationaleResponse = z.infer<typeof rationaleResponseSchema>
+
+function quotes(businessInfo: BusinessInfo, source: FieldRationale['sources'][number]) {
+  return businessInfo[source.input].toLowerCase().includes(source.quote.trim().toLowerCase())
+}
+
+// Sources are shown as quotes from the inputs, so they have to be in them
+function checkRationales(businessInfo: BusinessInfo, paths: ProfileFieldPath[], response: RationaleResponse): ProfileFieldError[] {
+  const missing = paths
+    .filter(path => !response.rationales.some(rationale => rationale.path === path))
+    .map(path => ({ path: `rationales.${path}`, message: 'Missing; explain every requested field' }))
+  const misquoted = response.rationales.flatMap((rationale, index) => rationale.sources.flatMap((source, sourceIndex) =>
+    quotes(businessInfo, source)
+      ? []
+      : [{ path: `rationales.${index}.sources.${sourceIndex}.quote`, message: `Does not appear in ${source.input}; quote it exactly` }]
+  ))
+  return [...missing, ...misquoted]
+}
+
+function dropMisquotes(businessInfo: BusinessInfo, response: RationaleResponse): RationaleResponse {
+  return {
+    rationales: response.rationales.map(rationale => ({
+      ...rationale,
+      sources: rationale.sources.filter(source => quotes(businessInfo, source))
+    }))
+  }
+}
+
+/**
+ * Explains why the given fields of a generated profile have their values,
+ * with a confidence level and the input wording that supports each one.
+ */
+export async function requestProfileRationales(
+  businessInfo: BusinessInfo,
+  profile: CustomerProfile,
+  paths: ProfileFieldPath[] = getPresentFields(profile).map(field => field.path),
+  request: RequestOptions = {}
+): Promise<ProfileRationales> {
+  const prompt = `
+    A customer profile was generated from this business information:
+
+    Vision Statement: ${businessInfo.visionStatement}
+    Mission Statement: ${businessInfo.missionStatement}
+    Business Description: ${businessInfo.businessDescription}
+    Target Market: ${businessInfo.targetMarket}
+
+    Customer profile:
+    ${JSON.stringify(profile, null, 2)}
+
+    For each of these fields, explain in one or two sentences why it has its value: ${paths.map(path => `"${path}"`).join(', ')}.
+    Rate your confidence: "high" when the business information states or clearly implies the value, "medium" when it is a reasonable inference, and "low" when it is mostly an assumption about typical customers.
+    List the inputs that support it as sources, quoting their wording exactly (a few words each). Use an empty list when nothing in the inputs supports the value; do not stretch.
+  `
+
+  const response = await generateValidated(prompt, rationaleResponseSchema, {
+    ...request,
+    check: (result) => checkRationales(businessInfo, paths, result),
+    fallback: (result) => dropMisquotes(businessInfo, result)
+  })
+
+  return Object.fromEntries(response.rationales
+    .filter(({ path }) => paths.includes(path))
+    .map(({ path, ...rationale }) => [path, rationale]))
+}
+
+export function dropRationales(rationales: ProfileRationales, paths: ProfileFieldPath[]): ProfileRationales {
+  return Object.fromEntries(Object.entries(rationales).filter(([path]) => !paths.includes(path as ProfileFieldPath)))
+}
+
+/**
+ * Adds rationales that were requested for `explained`, skipping fields whose
+ * value has changed in `current` since; those would explain the wrong value.
+ */
+export function mergeRationales(
+  rationales: ProfileRationales,
+  current: CustomerProfile,
+  explained: CustomerProfile,
+  added: ProfileRationales
+): ProfileRationales {
+  const unchanged = Object.entries(added).filter(([path]) =>
+    JSON.stringify(getProfileField(current, path as ProfileFieldPath)) === JSON.stringify(getProfileField(explained, path as ProfileFieldPath)))
+  return { ...rationales, ...Object.fromEntries(unchanged) }
+}
+
+export function getUnexplainedFields(profile: CustomerProfile, rationales: ProfileRationales) {
+  return getPresentFields(profile).map(field => field.path).filter(path => !rationales[path])
+}
@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import { generateValidated, type RequestOptions } from './profile-generation'
+import { getFieldDefinition, getPresentFields, getProfileField, setProfileField } from './profile-fields'
+import { describeLocks, isLocked, type FieldLocks } from './profile-locks'
+import {
+  profilePatchSchema,
+  type BusinessInfo,
+  type CustomerProfile,
+  type ProfileFieldError,
+  type ProfilePatch,
+  type RefinementMessage
+} from './profile-schema'
+
+// Only the most recent turns are sent back as context
+const HISTORY_LIMIT = 10
+
+const refinementResponseSchema = z.object({
+  reply: z.string().min(1).describe('Short explanation of the proposed changes, addressed to the user'),
+  changes: profilePatchSchema
+})
+
+export interface RefinementResponse {
+  reply: string
+  changes: ProfilePatch
+}
+
+export interface FieldDiff {
+  path: ProfilePatch[number]['path']
+  label: string
+  before: string | string[]
+  after: string | string[]
+}
+
+function describeHistory(history: RefinementMessage[]) {
+  return history.slice(-HISTORY_LIMIT).map(message => {
+    if (message.role === 'user') return `User: ${message.content}`
+    const outcome = message.status && message.status !== 'pending' ? ` (the user ${message.status} these changes)` : ''
+    return `Assistant: ${message.content}${outcome}`
+  }).join('\n    ')
+}
+
+function checkPatch(changes: ProfilePatch, profile: CustomerProfile, locks: FieldLocks): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = []
+  const allowed = getPresentFields(profile).map(field => field.path)
+  for (const change of changes) {
+    const { kind } = getFieldDefinition(change.path)
+    if (!allowed.includes(change.path)) {
+      errors.push({ path: change.path, message: 'Not a field of this profile' })
+    } else if (kind === 'list' && !Array.isArray(change.value)) {
+      errors.push({ path: change.path, message: 'Must be an array of strings' })
+    } else if (kind === 'text' && Array.isArray(change.value)) {
+      errors.push({ path: change.path, message: 'Must be a single string' })
+    } else if (isLocked(locks, change.path) && !Array.isArray(locks[change.path])) {
+      errors.push({ path: change.path, message: 'This field is locked and cannot be changed' })
+    }
+  }
+  return errors
+}
+
+/**
+ * Turns a free-form instruction ("make this persona more budget-conscious")
+ * into a set of field replacements. Nothing is applied here; the caller
+ * previews the patch and decides whether to accept it.
+ */
+export async function requestProfileRefinement(
+  businessInfo: BusinessInfo,
+  profile: CustomerProfile,
+  history: RefinementMessage[],
+  instruction: string,
+  locks: FieldLocks = {},
+  request: RequestOptions = {}
+): Promise<RefinementResponse> {
+  const prompt = `
+    You are helping refine an ideal customer profile for this business:
+
+    Vision Statement: ${businessInfo.visionStatement}
+    Mission Statement: ${businessInfo.missionStatement}
+    Business Description: ${businessInfo.businessDescription}
+    Target Market: ${businessInfo.targetMarket}
+
+    Current customer profile:
+    ${JSON.stringify(profile, null, 2)}
+
+    Conversation so far:
+    ${describeHistory(history) || '(none)'}
+
+    New instruction from the user: ${instruction}
+
+    Propose the smallest set of changes that carries out the instruction while keeping the profile consistent.
+    Each change replaces one whole field. Allowed paths: ${getPresentFields(profile).map(field => `"${field.path}" (${field.kind === 'list' ? 'array of strings' : 'string'})`).join(', ')}.
+    For list fields, return the complete new list, not just the additions.
+    If the instruction needs no changes, return an empty "changes" array and explain why in "reply".
+    ${describeLocks(locks)}
+  `
+
+  const response = await generateValidated(prompt, refinementResponseSchema, {
+    ...request,
+    check: (result) => checkPatch(result.changes, profile, locks)
+  })
+
+  // Locked list items must survive even if the model dropped them
+  const changes = response.changes.map(change => {
+    const locked = locks[change.path]
+    if (!Array.isArray(locked) || !Array.isArray(change.value)) return change
+    const value = change.value
+    return { ...change, value: [...locked.filter(item => !value.includes(item)), ...value] }
+  })
+
+  return { reply: response.reply, changes }
+}
+
+export function applyProfilePatch(profile: CustomerProfile, patch: ProfilePatch): CustomerProfile {
+  return patch.reduce((result, change) => setProfileField(result, change.path, change.value), profile)
+}
+
+/** Before/after pairs for previewing a patch, skipping changes that are no-ops. */
+export function diffProfilePatch(profile: CustomerProfile, patch: ProfilePatch): FieldDiff[] {
+  return patch
+    .map(change => ({
+      path: change.path,
+      label: getFieldDefinition(change.path).label,
+      before: getProfileField(profile, change.path),
+      after: change.value
+    }))
+    .filter(diff => JSON.stringify(diff.before) !== JSON.stringify(diff.after))
+}
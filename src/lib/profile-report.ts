@@ -0,0 +1,154 @@
+import { ANTI_PERSONA_LISTS } from './anti-persona'
+import {
+  getFieldDefinition,
+  getModeSections,
+  getProfileField,
+  getSectionFields,
+  type ProfileFieldPath,
+  type ProfileSectionKey
+} from './profile-fields'
+import { getProfileMode, getProfileModeLabel, splitCommitteeMember } from './profile-mode'
+import { getPersonaTitle, isPersonaSet } from './profile-personas'
+import type { AntiPersona, BusinessInfo, Persona } from './profile-schema'
+
+/**
+ * The report the structured exports are written from: chapters of titled
+ * sections holding paragraphs, lists and tables. Each format only decides
+ * how these look, so Markdown and Word always say the same thing.
+ */
+
+export interface ReportRow {
+  label: string
+  value: string
+}
+
+export type ReportBlock =
+  | { kind: 'paragraph', label?: string, text: string }
+  | { kind: 'quote', text: string }
+  | { kind: 'list', label?: string, items: string[] }
+  /** Items led by a term, such as committee members and their concerns. */
+  | { kind: 'terms', label?: string, items: { term: string, text: string }[] }
+  | { kind: 'table', rows: ReportRow[] }
+
+export interface ReportSection {
+  title: string
+  blocks: ReportBlock[]
+}
+
+export interface ReportChapter {
+  title: string
+  subtitle?: string
+  /** Set on persona chapters, for formats that show the avatar. */
+  persona?: Persona
+  sections: ReportSection[]
+}
+
+export interface ProfileReport {
+  title: string
+  generatedAt: Date
+  chapters: ReportChapter[]
+}
+
+// Short attributes read best as a table
+const TABLE_SECTIONS: ProfileSectionKey[] = ['demographics', 'firmographics', 'buyingBehavior']
+
+function fieldBlock(persona: Persona, path: ProfileFieldPath, withLabel: boolean): ReportBlock {
+  const value = getProfileField(persona.customerProfile, path)
+  const label = withLabel ? getFieldDefinition(path).label : undefined
+  if (typeof value === 'string') return { kind: 'paragraph', label, text: value }
+  if (path === 'buyingCommittee.members') {
+    return { kind: 'terms', label, items: value.map(member => splitCommitteeMember(member)).map(({ role, concerns }) => ({ term: role, text: concerns })) }
+  }
+  return { kind: 'list', label, items: value }
+}
+
+function sectionBlocks(persona: Persona, key: ProfileSectionKey): ReportBlock[] {
+  const paths = getSectionFields(key)
+  if (TABLE_SECTIONS.includes(key)) {
+    return [{
+      kind: 'table',
+      rows: paths.map(path => {
+        const value = getProfileField(persona.customerProfile, path)
+        return { label: getFieldDefinition(path).label, value: typeof value === 'string' ? value : value.join(', ') }
+      })
+    }]
+  }
+  // Single-field sections are titled by the field already
+  return paths.map(path => fieldBlock(persona, path, paths.length > 1))
+}
+
+function storySection(persona: Persona): ReportSection | null {
+  const { narrative } = persona.customerProfile
+  const { segment } = persona
+  const blocks: ReportBlock[] = [
+    ...(narrative ? [
+      { kind: 'quote', text: narrative.quote } as const,
+      { kind: 'paragraph', label: 'A Day in the Life', text: narrative.dayInTheLife } as const
+    ] : []),
+    ...(segment ? [{ kind: 'paragraph', label: 'How They Differ', text: segment.differentiator } as const] : [])
+  ]
+  return blocks.length > 0 ? { title: narrative ? 'Persona Story' : 'Segment', blocks } : null
+}
+
+function personaChapter(personas: Persona[], index: number): ReportChapter {
+  const persona = personas[index]
+  const profile = persona.customerProfile
+  const mode = getProfileMode(profile)
+  const story = storySection(persona)
+  const sections = getModeSections(mode)
+    .filter(section => section.key !== 'narrative' && profile[section.key] !== undefined)
+    .map(section => ({ title: section.title, blocks: sectionBlocks(persona, section.key) }))
+
+  return {
+    title: profile.narrative?.name ?? (isPersonaSet(personas) ? getPersonaTitle(persona, index) : 'Your Customer'),
+    subtitle: persona.segment ? `${persona.segment.label} - ${getProfileModeLabel(mode)}` : getProfileModeLabel(mode),
+    persona,
+    sections: story ? [story, ...sections] : sections
+  }
+}
+
+function antiPersonaChapter(antiPersona: AntiPersona): ReportChapter {
+  return {
+    title: `Anti-Persona: ${antiPersona.name}`,
+    subtitle: 'Customers who look attractive but are a poor fit',
+    sections: [
+      {
+        title: 'Who They Are',
+        blocks: [
+          { kind: 'paragraph', text: antiPersona.description },
+          { kind: 'paragraph', label: 'Why They Look Attractive', text: antiPersona.appeal }
+        ]
+      },
+      ...ANTI_PERSONA_LISTS.map(({ key, label }) => ({
+        title: label,
+        blocks: [{
+          kind: 'list' as const,
+          items: key === 'redFlagPhrases' ? antiPersona[key].map(phrase => `“${phrase}”`) : antiPersona[key]
+        }]
+      }))
+    ]
+  }
+}
+
+export function buildProfileReport(businessInfo: BusinessInfo, personas: Persona[], antiPersona?: AntiPersona, generatedAt = new Date()): ProfileReport {
+  const business: ReportChapter = {
+    title: 'Business Information',
+    sections: [
+      { title: 'Vision Statement', blocks: [{ kind: 'paragraph', text: businessInfo.visionStatement }] },
+      { title: 'Mission Statement', blocks: [{ kind: 'paragraph', text: businessInfo.missionStatement }] },
+      { title: 'Business Description', blocks: [{ kind: 'paragraph', text: businessInfo.businessDescription }] },
+      { title: 'Target Market', blocks: [{ kind: 'paragraph', text: businessInfo.targetMarket || 'Not specified' }] },
+      { title: 'Customer Type', blocks: [{ kind: 'paragraph', text: getProfileModeLabel(getProfileMode(personas[0].customerProfile)) }] }
+    ]
+  }
+
+  return {
+    title: isPersonaSet(personas) ? `Customer Personas (${personas.length})` : 'Customer Profile',
+    generatedAt,
+    chapters: [
+      business,
+      ...personas.map((_, index) => personaChapter(personas, index)),
+      ...(antiPersona ? [antiPersonaChapter(antiPersona)] : [])
+    ]
+  }
+}
@@ -0,0 +1,396 @@
+import { blink } from '../blink/client'
+import { migrateSavedProfile } from './profile-migrations'
+import type { SavedProfile } from '../types/profile'
+
+export interface ProfileRepository {
+  list(): Promise<SavedProfile[]>
+  save(profile: SavedProfile): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export type RepositoryMode = 'cloud' | 'local'
+
+export interface ProfileRepositoryStatus {
+  mode: RepositoryMode
+  pendingWrites: number
+  failedWrites: number
+}
+
+/** A stored record that could not be migrated to the current schema. */
+export interface QuarantinedProfile {
+  id: string
+  profileName?: string
+  reason: string
+  raw: unknown
+  quarantinedAt: string
+}
+
+export type QueuedWrite =
+  | { type: 'save'; profile: SavedProfile; attempts?: number }
+  | { type: 'remove'; id: string; attempts?: number }
+
+/** A queued write that Blink DB kept rejecting, set aside so the writes behind it can sync. */
+export interface FailedWrite {
+  id: string
+  write: QueuedWrite
+  reason: string
+  failedAt: string
+}
+
+export interface SyncingProfileRepository extends ProfileRepository {
+  getStatus(): ProfileRepositoryStatus
+  getQuarantined(): QuarantinedProfile[]
+  discardQuarantined(id: string): Promise<void>
+  getFailedWrites(): FailedWrite[]
+  /** Puts the failed writes back in the queue; they are sent on the next `list()`. */
+  retryFailedWrites(): void
+  /** Gives up on a failed write, so the next `list()` shows what Blink DB has instead. */
+  discardFailedWrite(id: string): void
+}
+
+// Row shape of the `customer_profiles` table. The SDK maps camelCase to the
+// snake_case columns; nested objects are stored as JSON strings.
+interface ProfileRecord {
+  id: string
+  userId: string
+  profileName: string
+  visionStatement: string
+  missionStatement: string
+  businessDescription: string
+  targetMarket: string
+  customerProfile: string
+  // Only read from rows written before persona sets (schema v5 and older)
+  editedFields?: string
+  lockedFields?: string
+  refinementChat?: string
+  personas?: string
+  antiPersona?: string
+  schemaVersion?: number
+  createdAt: string
+  updatedAt: string
+}
+
+const profilesKey = (userId: string) => `profiles_${userId}`
+const queueKey = (userId: string) => `profiles_queue_${userId}`
+const migratedKey = (userId: string) => `profiles_migrated_${userId}`
+const quarantineKey = (userId: string) => `profiles_quarantine_${userId}`
+const failedWritesKey = (userId: string) => `profiles_failed_writes_${userId}`
+
+// Loads on which Blink DB may reject a queued write before it is set aside
+const MAX_WRITE_ATTEMPTS = 3
+
+function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) : fallback
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error)
+    return fallback
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value))
+}
+
+/**
+ * True when an error means "we couldn't reach Blink" rather than "Blink said no".
+ * Any other failure switches the repository to local-only mode until the
+ * next `list()` reaches Blink DB.
+ */
+function isOfflineError(error: unknown) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  // A response with a status, 5xx included, means Blink DB was reached and failed the request
+  const { code, status } = (error ?? {}) as { code?: string; status?: number }
+  return code === 'NETWORK_ERROR' && !status
+}
+
+// The id of the stored record, if it had one; quarantined entries without one get a made-up id
+function storedId(raw: unknown) {
+  const { id } = (raw ?? {}) as { id?: unknown }
+  return typeof id === 'string' && id ? id : undefined
+}
+
+function quarantine(userId: string, raw: unknown, error: unknown) {
+  const record = (raw ?? {}) as { profileName?: unknown }
+  const entry: QuarantinedProfile = {
+    id: storedId(raw) ?? `unknown-${Date.now()}`,
+    profileName: typeof record.profileName === 'string' ? record.profileName : undefined,
+    reason: error instanceof Error ? error.message : String(error),
+    raw,
+    quarantinedAt: new Date().toISOString()
+  }
+  console.warn(`Quarantined saved profile ${entry.id}:`, entry.reason)
+  const existing = readJSON<QuarantinedProfile[]>(quarantineKey(userId), [])
+  writeJSON(quarantineKey(userId), [...existing.filter(q => q.id !== entry.id), entry])
+}
+
+/**
+ * Upgrades raw stored records to the current schema. Records that can't be
+ * upgraded are moved to quarantine instead of failing the whole list.
+ */
+function migrateAll(userId: string, raws: unknown[]) {
+  const profiles: SavedProfile[] = []
+  for (const raw of raws) {
+    try {
+      profiles.push(migrateSavedProfile(raw))
+    } catch (error) {
+      quarantine(userId, raw, error)
+    }
+  }
+  return profiles
+}
+
+export function createLocalProfileRepository(userId: string): ProfileRepository {
+  const key = profilesKey(userId)
+
+  return {
+    async list() {
+      const raws = readJSON<unknown[]>(key, [])
+      const profiles = migrateAll(userId, raws)
+      // Persist upgraded records and drop the quarantined ones from the list
+      writeJSON(key, profiles)
+      return profiles
+    },
+    async save(profile) {
+      const profiles = readJSON<SavedProfile[]>(key, [])
+      const exists = profiles.some(p => p.id === profile.id)
+      writeJSON(key, exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile])
+    },
+    async remove(id) {
+      writeJSON(key, readJSON<SavedProfile[]>(key, []).filter(p => p.id !== id))
+    }
+  }
+}
+
+export function createBlinkProfileRepository(userId: string): ProfileRepository {
+  const table = blink.db.table<ProfileRecord>('customer_profiles')
+
+  const toRecord = (profile: SavedProfile): ProfileRecord => ({
+    id: profile.id,
+    userId,
+    profileName: profile.profileName,
+    visionStatement: profile.visionStatement,
+    missionStatement: profile.missionStatement,
+    businessDescription: profile.businessDescription,
+    targetMarket: profile.targetMarket,
+    // Still filled with the first persona so the column stays meaningful on its own
+    customerProfile: JSON.stringify(profile.personas[0].customerProfile),
+    personas: JSON.stringify(profile.personas),
+    antiPersona: profile.antiPersona && JSON.stringify(profile.antiPersona),
+    schemaVersion: profile.schemaVersion,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt ?? profile.createdAt
+  })
+
+  // Returns the stored shape untouched (apart from decoding JSON) so the
+  // migration pipeline decides whether it is still usable
+  const fromRecord = (record: ProfileRecord): unknown => {
+    const decode = (value: string | null | undefined) => {
+      try {
+        return value == null ? undefined : JSON.parse(value)
+      } catch {
+        return value
+      }
+    }
+    return {
+      id: record.id,
+      profileName: record.profileName,
+      visionStatement: record.visionStatement,
+      missionStatement: record.missionStatement,
+      businessDescription: record.businessDescription,
+      targetMarket: record.targetMarket,
+      customerProfile: decode(record.customerProfile),
+      editedFields: decode(record.editedFields),
+      lockedFields: decode(record.lockedFields),
+      refinementChat: decode(record.refinementChat),
+      personas: decode(record.personas),
+      antiPersona: decode(record.antiPersona),
+      schemaVersion: record.schemaVersion ? Number(record.schemaVersion) : undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt !== record.createdAt ? record.updatedAt : undefined
+    }
+  }
+
+  return {
+    async list() {
+      const records = await table.list({ where: { userId }, orderBy: { createdAt: 'asc' } })
+      return migrateAll(userId, records.map(fromRecord))
+    },
+    async save(profile) {
+      await table.upsert(toRecord(profile))
+    },
+    async remove(id) {
+      await table.delete(id)
+    }
+  }
+}
+
+/**
+ * Picks Blink DB when it is reachable and falls back to localStorage when it
+ * isn't. The local copy is always kept up to date so the library works
+ * offline; writes that fail are queued and replayed on the next `list()`,
+ * which tries Blink DB again every time. A write Blink DB keeps rejecting is
+ * moved to the failed writes after `MAX_WRITE_ATTEMPTS` loads.
+ * The first time Blink DB answers, profiles that only exist locally
+ * (including the legacy `profiles_${userId}` data) are uploaded; after that
+ * the remote list is authoritative apart from changes still waiting to sync.
+ * Starting in `'local'` mode never touches Blink DB at all.
+ */
+export function createProfileRepository(userId: string, initialMode: RepositoryMode = 'cloud'): SyncingProfileRepository {
+  const local = createLocalProfileRepository(userId)
+  const remote = createBlinkProfileRepository(userId)
+  let mode = initialMode
+
+  const readQueue = () => readJSON<QueuedWrite[]>(queueKey(userId), [])
+  const readFailedWrites = () => readJSON<FailedWrite[]>(failedWritesKey(userId), [])
+
+  const enqueue = (write: QueuedWrite) => {
+    writeJSON(queueKey(userId), [...readQueue(), write])
+  }
+
+  const applyRemote = (write: QueuedWrite) =>
+    write.type === 'save' ? remote.save(write.profile) : remote.remove(write.id)
+
+  // Sends a write to Blink DB. A write that fails is always queued, so it
+  // reaches Blink DB on a later load even after falling back to local-only
+  // mode because Blink DB rejected it.
+  const writeRemote = async (write: QueuedWrite) => {
+    if (initialMode === 'local') return
+    if (mode === 'local') {
+      enqueue(write)
+      return
+    }
+    try {
+      await applyRemote(write)
+    } catch (error) {
+      enqueue(write)
+      if (!isOfflineError(error)) {
+        console.error('Blink DB unavailable, using local storage only:', error)
+        mode = 'local'
+      }
+    }
+  }
+
+  const setAside = (write: QueuedWrite, error: unknown) => {
+    const failed: FailedWrite = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      write,
+      reason: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString()
+    }
+    console.error(`Blink DB keeps rejecting a queued ${write.type}, setting it aside:`, error)
+    writeJSON(failedWritesKey(userId), [...readFailedWrites(), failed])
+  }
+
+  // Writes go out in order. One that Blink DB rejects stops the flush until
+  // the next load, so a later write to the same profile can't overtake it,
+  // and is set aside once it has used up its attempts.
+  const flushQueue = async () => {
+    const queue = readQueue()
+    while (queue.length > 0) {
+      const write = queue[0]
+      try {
+        await applyRemote(write)
+      } catch (error) {
+        if (isOfflineError(error)) throw error
+        const attempts = (write.attempts ?? 0) + 1
+        if (attempts < MAX_WRITE_ATTEMPTS) {
+          queue[0] = { ...write, attempts }
+          writeJSON(queueKey(userId), queue)
+          return
+        }
+        setAside(write, error)
+      }
+      queue.shift()
+      writeJSON(queueKey(userId), queue)
+    }
+  }
+
+  // The last change to each profile that has not reached Blink DB, oldest writes first
+  const unsyncedChanges = () => {
+    const changes = new Map<string, QueuedWrite['type']>()
+    for (const write of [...readFailedWrites().map(failed => failed.write), ...readQueue()]) {
+      changes.set(write.type === 'save' ? write.profile.id : write.id, write.type)
+    }
+    return changes
+  }
+
+  // The first time, profiles only stored locally are uploaded. From then on
+  // the remote list wins, so profiles deleted on another device disappear
+  // here too, except where a local change is still waiting to sync.
+  const mergeLocalProfiles = async (remoteProfiles: SavedProfile[]) => {
+    const localProfiles = await local.list()
+    const remoteIds = new Set(remoteProfiles.map(p => p.id))
+
+    if (!localStorage.getItem(migratedKey(userId))) {
+      const localOnly = localProfiles.filter(p => !remoteIds.has(p.id))
+      for (const profile of localOnly) {
+        await remote.save(profile)
+      }
+      localStorage.setItem(migratedKey(userId), new Date().toISOString())
+      return [...remoteProfiles, ...localOnly]
+    }
+
+    const changes = unsyncedChanges()
+    const localById = new Map(localProfiles.map(p => [p.id, p]))
+    const kept = remoteProfiles
+      .filter(p => changes.get(p.id) !== 'remove')
+      .map(p => changes.get(p.id) === 'save' ? localById.get(p.id) ?? p : p)
+    const added = localProfiles.filter(p => !remoteIds.has(p.id) && changes.get(p.id) === 'save')
+    return [...kept, ...added]
+  }
+
+  return {
+    async list() {
+      if (initialMode === 'local') return local.list()
+      try {
+        await flushQueue()
+        const profiles = await mergeLocalProfiles(await remote.list())
+        writeJSON(profilesKey(userId), profiles)
+        mode = 'cloud'
+        return profiles
+      } catch (error) {
+        if (!isOfflineError(error)) {
+          console.error('Blink DB unavailable, using local storage only:', error)
+          mode = 'local'
+        }
+        return local.list()
+      }
+    },
+    async save(profile) {
+      await local.save(profile)
+      await writeRemote({ type: 'save', profile })
+    },
+    async remove(id) {
+      await local.remove(id)
+      await writeRemote({ type: 'remove', id })
+    },
+    getStatus() {
+      return { mode, pendingWrites: readQueue().length, failedWrites: readFailedWrites().length }
+    },
+    getQuarantined() {
+      return readJSON<QuarantinedProfile[]>(quarantineKey(userId), [])
+    },
+    async discardQuarantined(id) {
+      const quarantined = readJSON<QuarantinedProfile[]>(quarantineKey(userId), [])
+      const entry = quarantined.find(q => q.id === id)
+      writeJSON(quarantineKey(userId), quarantined.filter(q => q.id !== id))
+      // A made-up id names no row in Blink DB, so there is nothing to delete there
+      const recordId = entry && storedId(entry.raw)
+      if (recordId) await writeRemote({ type: 'remove', id: recordId })
+    },
+    getFailedWrites() {
+      return readFailedWrites()
+    },
+    retryFailedWrites() {
+      const failed = readFailedWrites()
+      writeJSON(failedWritesKey(userId), [])
+      // Ahead of the queue, as they were written before anything still in it
+      writeJSON(queueKey(userId), [...failed.map(({ write }) => ({ ...write, attempts: 0 })), ...readQueue()])
+    },
+    discardFailedWrite(id) {
+      writeJSON(failedWritesKey(userId), readFailedWrites().filter(failed => failed.id !== id))
+    }
+  }
+}
@@ -0,0 +1,324 @@
+import { z } from 'zod'
+import { PROFILE_FIELD_PATHS, PROFILE_SECTIONS } from './profile-fields'
+import { getProfileMode, type ProfileMode } from './profile-mode'
+
+interface ProfileFieldSchemas {
+  text: z.ZodString
+  list: z.ZodArray<z.ZodString>
+}
+
+function createProfileSchemas({ text, list }: ProfileFieldSchemas) {
+  const narrativeSchema = z.object({
+    name: text.describe('Name of the persona, e.g. "Maya Chen"'),
+    quote: text.describe('One sentence they might say about what they need, in their own words and without quotation marks'),
+    dayInTheLife: text.describe('A "day in the life" story of 80-150 words in the present tense, showing where their pain points show up and where the business could help')
+  })
+
+  const demographicsSchema = z.object({
+    ageRange: text.describe('Typical age range, e.g. "28-40"'),
+    gender: text,
+    location: text,
+    income: text.describe('Income level or range'),
+    education: text
+  })
+
+  const firmographicsSchema = z.object({
+    companySize: text.describe('Typical headcount, e.g. "20-200 employees"'),
+    industry: text,
+    revenueBand: text.describe('Annual revenue range, e.g. "$2M-$20M"'),
+    techStack: list.describe('Tools and platforms these companies already use')
+  })
+
+  const psychographicsSchema = z.object({
+    values: list,
+    interests: list,
+    lifestyle: text,
+    personality: text
+  })
+
+  const buyingCommitteeSchema = z.object({
+    decisionMakers: list.describe('Job titles that sign off on the purchase'),
+    members: list.describe('One entry per committee member: their role, a colon, then what they individually care about, e.g. "IT lead: security review, single sign-on, integration effort"'),
+    salesCycle: text.describe('Typical time from first contact to signed contract, e.g. "2-4 months"')
+  })
+
+  const buyingBehaviorSchema = z.object({
+    decisionFactors: list,
+    purchaseProcess: text,
+    budget: text
+  })
+
+  const consumer = z.object({
+    demographics: demographicsSchema,
+    psychographics: psychographicsSchema,
+    painPoints: list,
+    motivations: list,
+    goals: list,
+    communicationChannels: list,
+    buyingBehavior: buyingBehaviorSchema,
+    // Last, so the story is written from the attributes rather than the other way round
+    narrative: narrativeSchema
+  })
+
+  const business = z.object({
+    firmographics: firmographicsSchema,
+    psychographics: psychographicsSchema,
+    painPoints: list,
+    motivations: list,
+    goals: list,
+    communicationChannels: list,
+    buyingCommittee: buyingCommitteeSchema,
+    buyingBehavior: buyingBehaviorSchema,
+    narrative: narrativeSchema
+  })
+
+  const customer = z.object({
+    demographics: demographicsSchema.optional(),
+    firmographics: firmographicsSchema.optional(),
+    psychographics: psychographicsSchema,
+    painPoints: list,
+    motivations: list,
+    goals: list,
+    communicationChannels: list,
+    buyingCommittee: buyingCommitteeSchema.optional(),
+    buyingBehavior: buyingBehaviorSchema,
+    // Profiles saved before v10 have no story until that section is regenerated
+    narrative: narrativeSchema.optional()
+  }).superRefine((profile, ctx) => {
+    const mode = getProfileMode(profile)
+    for (const section of PROFILE_SECTIONS) {
+      if (!section.mode) continue
+      const present = profile[section.key] !== undefined
+      if (section.mode === mode && !present) {
+        ctx.addIssue({ code: 'custom', path: [section.key], message: `Required in a ${mode.toUpperCase()} profile` })
+      } else if (section.mode !== mode && present) {
+        ctx.addIssue({ code: 'custom', path: [section.key], message: `Not part of a ${mode.toUpperCase()} profile` })
+      }
+    }
+  })
+
+  return { consumer, business, customer }
+}
+
+/**
+ * The shapes the model is asked for are the single source of truth: the
+ * TypeScript type, the JSON schema sent to the model and the runtime
+ * validation of its response are all derived from them. Generated profiles
+ * must fill in every field.
+ */
+const generatedSchemas = createProfileSchemas({
+  text: z.string().min(1),
+  list: z.array(z.string().min(1)).min(1)
+})
+
+// Earlier versions saved whatever the model returned, empty lists included,
+// so stored and imported profiles are only held to the shape
+const storedSchemas = createProfileSchemas({
+  text: z.string(),
+  list: z.array(z.string())
+})
+
+/** A consumer (B2C) profile, as requested from the model. */
+export const consumerProfileSchema = generatedSchemas.consumer
+
+/** A business (B2B) profile: firmographics instead of demographics, plus the buying committee. */
+export const businessProfileSchema = generatedSchemas.business
+
+export const PROFILE_MODE_SCHEMAS = {
+  b2c: consumerProfileSchema,
+  b2b: businessProfileSchema
+} satisfies Record<ProfileMode, z.ZodObject>
+
+type SectionKey = keyof CustomerProfile
+
+/** Every section's schema, for validating sections one at a time. */
+export const profileSectionSchemas: { [K in SectionKey]: z.ZodType<NonNullable<CustomerProfile[K]>> } = {
+  ...consumerProfileSchema.shape,
+  ...businessProfileSchema.shape
+}
+
+/** A generated profile of either mode. */
+export const customerProfileSchema = generatedSchemas.customer
+
+/** A profile of either mode, as stored and exported. */
+const storedProfileSchema = storedSchemas.customer
+
+export type CustomerProfile = z.infer<typeof customerProfileSchema>
+
+/** JSON schema for `generateObject`; the model only needs the structural part. */
+export function toGenerationSchema(schema: z.ZodType) {
+  const { $schema: _draft, ...jsonSchema } = z.toJSONSchema(schema)
+  return jsonSchema
+}
+
+export const customerProfileJsonSchema = toGenerationSchema(customerProfileSchema)
+
+export interface ProfileFieldError {
+  path: string
+  message: string
+}
+
+export class ProfileValidationError extends Error {
+  fieldErrors: ProfileFieldError[]
+
+  constructor(fieldErrors: ProfileFieldError[]) {
+    super(`Generated profile is invalid: ${fieldErrors.map(e => `${e.path} (${e.message})`).join(', ')}`)
+    this.name = 'ProfileValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+export function parseWithSchema<T>(schema: z.ZodType<T>, value: unknown): T {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new ProfileValidationError(result.error.issues.map(issue => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message
+    })))
+  }
+  return result.data
+}
+
+export function parseCustomerProfile(value: unknown): CustomerProfile {
+  return parseWithSchema(customerProfileSchema, value)
+}
+
+/**
+ * Version of the saved-profile and export formats. Bump it together with a
+ * new entry in `profile-migrations.ts` whenever either shape changes.
+ */
+export const PROFILE_SCHEMA_VERSION = 10
+
+export const businessInfoSchema = z.object({
+  visionStatement: z.string(),
+  missionStatement: z.string(),
+  businessDescription: z.string(),
+  targetMarket: z.string()
+})
+
+export type BusinessInfo = z.infer<typeof businessInfoSchema>
+
+/** Fields the user changed by hand after generation. */
+const editedFieldsSchema = z.array(z.enum(PROFILE_FIELD_PATHS))
+
+/** Values pinned by the user; see `profile-locks.ts`. */
+const lockedFieldsSchema = z.partialRecord(z.enum(PROFILE_FIELD_PATHS), z.union([z.string(), z.array(z.string())]))
+
+/** Why a generated field has its value, traced back to the wording of the business info. */
+export const fieldRationaleSchema = z.object({
+  rationale: z.string().min(1).describe('One or two sentences on why the field has this value'),
+  confidence: z.enum(['low', 'medium', 'high']).describe('How strongly the business info supports the value'),
+  sources: z.array(z.object({
+    input: businessInfoSchema.keyof(),
+    quote: z.string().min(1).describe('Wording copied exactly from that input')
+  }))
+})
+
+export type FieldRationale = z.infer<typeof fieldRationaleSchema>
+
+/** Rationales by field; fields changed by hand since generation have none. */
+const profileRationalesSchema = z.partialRecord(z.enum(PROFILE_FIELD_PATHS), fieldRationaleSchema)
+
+export type ProfileRationales = z.infer<typeof profileRationalesSchema>
+
+/** A set of whole-field replacements proposed by the refinement chat. */
+export const profilePatchSchema = z.array(z.object({
+  path: z.enum(PROFILE_FIELD_PATHS),
+  value: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+}))
+
+export type ProfilePatch = z.infer<typeof profilePatchSchema>
+
+export const refinementMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  patch: profilePatchSchema.optional(),
+  status: z.enum(['pending', 'accepted', 'rejected']).optional(),
+  createdAt: z.string()
+})
+
+export type RefinementMessage = z.infer<typeof refinementMessageSchema>
+
+/** How a persona in a generated set differs from the others. */
+export const personaSegmentSchema = z.object({
+  name: z.string().min(1).describe('A memorable persona name, e.g. "Startup Sam"'),
+  label: z.string().min(1).describe('Short label for the customer segment, e.g. "Early-stage founders"'),
+  differentiator: z.string().min(1).describe('One or two sentences on how this persona differs from the others in the set')
+})
+
+export type PersonaSegment = z.infer<typeof personaSegmentSchema>
+
+/**
+ * Customers who look like a good fit but are not worth targeting, so sales
+ * and marketing know whom to turn away. There is one per profile or set.
+ */
+export const antiPersonaSchema = z.object({
+  name: z.string().min(1).describe('A memorable name for this poor-fit customer, e.g. "Bargain-Hunting Ben"'),
+  description: z.string().min(1).describe('Two or three sentences on who they are'),
+  appeal: z.string().min(1).describe('Why they look like an attractive customer at first'),
+  reasons: z.array(z.string().min(1)).min(2).describe('Why they are a poor fit, each a short sentence'),
+  disqualifyingSignals: z.array(z.string().min(1)).min(2).describe('Observable signs, during discovery or onboarding, that a prospect is this customer'),
+  redFlagPhrases: z.array(z.string().min(1)).min(2).describe('Things they typically say, in their own words and without quotation marks')
+})
+
+export type AntiPersona = z.infer<typeof antiPersonaSchema>
+
+/**
+ * One customer profile together with the user's work on it. A single
+ * generation produces one persona without a segment; a persona set has
+ * two or more, each with its own segment.
+ */
+export const personaSchema = z.object({
+  id: z.string().min(1),
+  segment: personaSegmentSchema.optional(),
+  customerProfile: storedProfileSchema,
+  editedFields: editedFieldsSchema,
+  lockedFields: lockedFieldsSchema,
+  rationales: profileRationalesSchema,
+  refinementChat: z.array(refinementMessageSchema)
+})
+
+export type Persona = z.infer<typeof personaSchema>
+
+export const savedProfileSchema = businessInfoSchema.extend({
+  schemaVersion: z.literal(PROFILE_SCHEMA_VERSION),
+  id: z.string().min(1),
+  profileName: z.string().min(1),
+  personas: z.array(personaSchema).min(1),
+  antiPersona: antiPersonaSchema.optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional()
+})
+
+export type SavedProfile = z.infer<typeof savedProfileSchema>
+
+const singleProfileExportSchema = z.object({
+  schemaVersion: z.literal(PROFILE_SCHEMA_VERSION),
+  generatedAt: z.string(),
+  businessInfo: businessInfoSchema,
+  customerProfile: storedProfileSchema,
+  editedFields: editedFieldsSchema,
+  lockedFields: lockedFieldsSchema,
+  rationales: profileRationalesSchema,
+  antiPersona: antiPersonaSchema.optional()
+})
+
+const personaSetExportSchema = z.object({
+  schemaVersion: z.literal(PROFILE_SCHEMA_VERSION),
+  generatedAt: z.string(),
+  businessInfo: businessInfoSchema,
+  personas: z.array(personaSchema.pick({
+    segment: true,
+    customerProfile: true,
+    editedFields: true,
+    lockedFields: true,
+    rationales: true
+  })).min(2),
+  antiPersona: antiPersonaSchema.optional()
+})
+
+/** A single profile keeps the original export shape; a persona set exports all of its personas. */
+export const profileExportSchema = z.union([singleProfileExportSchema, personaSetExportSchema])
+
+export type ProfileExport = z.infer<typeof profileExportSchema>
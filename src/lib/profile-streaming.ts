@@ -0,0 +1,91 @@
+import { z } from 'zod'
+import { customerProfileSchema, personaSegmentSchema, profileSectionSchemas, type CustomerProfile } from './profile-schema'
+import { PROFILE_FIELDS, type ProfileSectionKey } from './profile-fields'
+import type { GeneratedPersona } from './profile-generation'
+
+/** A profile as it streams in: sections and fields appear one at a time, and lists grow. */
+export type PartialCustomerProfile = {
+  [K in ProfileSectionKey]?: NonNullable<CustomerProfile[K]> extends string[] ? string[] : Partial<CustomerProfile[K]>
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Keeps whatever well-formed fields a partial response has so far. */
+export function toPartialProfile(value: unknown): PartialCustomerProfile {
+  const result: UnknownRecord = {}
+  if (!isRecord(value)) return result
+
+  for (const field of PROFILE_FIELDS) {
+    const [section, key] = field.path.split('.')
+    const container = key ? value[section] : value
+    const raw = isRecord(container) ? container[key ?? section] : undefined
+
+    let fieldValue: unknown
+    if (field.kind === 'text' && typeof raw === 'string' && raw.length > 0) {
+      fieldValue = raw
+    } else if (field.kind === 'list' && Array.isArray(raw)) {
+      const items = raw.filter((item): item is string => typeof item === 'string' && item.length > 0)
+      fieldValue = items.length > 0 ? items : undefined
+    }
+    if (fieldValue === undefined) continue
+
+    result[section] = key ? { ...(result[section] as UnknownRecord | undefined), [key]: fieldValue } : fieldValue
+  }
+  return result as PartialCustomerProfile
+}
+
+/**
+ * Sections of a partial response that are known to be finished. The model
+ * writes sections one after another, so every valid section before the one
+ * it was still writing is complete.
+ */
+export function getCompletedSections(value: unknown): Partial<CustomerProfile> {
+  if (!isRecord(value)) return {}
+
+  const sections = Object.keys(value).filter((key): key is ProfileSectionKey => key in profileSectionSchemas)
+  return Object.fromEntries(sections.slice(0, -1).flatMap((section) => {
+    const result = profileSectionSchemas[section].safeParse(value[section])
+    return result.success ? [[section, result.data]] : []
+  }))
+}
+
+const generatedPersonaSchema = z.object({
+  segment: personaSegmentSchema,
+  customerProfile: customerProfileSchema
+})
+
+function partialPersonas(value: unknown): unknown[] {
+  return isRecord(value) && Array.isArray(value.personas) ? value.personas : []
+}
+
+/** Personas of a partial persona-set response that are already complete. */
+export function getCompletedPersonas(value: unknown): GeneratedPersona[] {
+  return partialPersonas(value).slice(0, -1).flatMap((persona) => {
+    const result = generatedPersonaSchema.safeParse(persona)
+    return result.success ? [result.data] : []
+  })
+}
+
+export interface StreamingPersona {
+  index: number
+  name?: string
+  profile: PartialCustomerProfile
+}
+
+/** The persona a partial persona-set response is currently writing. */
+export function getStreamingPersona(value: unknown): StreamingPersona | null {
+  const personas = partialPersonas(value)
+  const current = personas[personas.length - 1]
+  if (!isRecord(current)) return null
+
+  const segment = isRecord(current.segment) ? current.segment : {}
+  return {
+    index: personas.length - 1,
+    name: typeof segment.name === 'string' && segment.name.length > 0 ? segment.name : undefined,
+    profile: toPartialProfile(current.customerProfile)
+  }
+}
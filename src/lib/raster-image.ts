@@ -0,0 +1,44 @@
+import { createPersonaAvatar, toSvgDataUri } from './persona-avatar'
+import type { Persona } from './profile-schema'
+
+/** A bitmap ready to embed in a document, with its size in pixels. */
+export interface RasterImage {
+  dataUrl: string
+  width: number
+  height: number
+}
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('The image could not be read'))
+    image.src = src
+  })
+}
+
+/**
+ * Draws any image the browser can display, SVG included, onto a canvas and
+ * returns it as a PNG no larger than `maxSize` pixels on its longer side.
+ * Document formats only take bitmaps, and this keeps embedded logos small.
+ */
+export async function rasterizeImage(src: string, maxSize: number): Promise<RasterImage> {
+  const image = await loadImage(src)
+  // SVGs with only a viewBox report no size; they are drawn square
+  const naturalWidth = image.naturalWidth || maxSize
+  const naturalHeight = image.naturalHeight || maxSize
+  const scale = Math.min(1, maxSize / Math.max(naturalWidth, naturalHeight))
+  const width = Math.max(1, Math.round(naturalWidth * scale))
+  const height = Math.max(1, Math.round(naturalHeight * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height)
+  return { dataUrl: canvas.toDataURL('image/png'), width, height }
+}
+
+/** Each persona's avatar as a bitmap, in the order of `personas`. */
+export function rasterizePersonaAvatars(personas: Persona[], maxSize: number) {
+  return Promise.all(personas.map(persona => rasterizeImage(toSvgDataUri(createPersonaAvatar(persona.customerProfile)), maxSize)))
+}
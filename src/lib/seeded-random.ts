@@ -0,0 +1,41 @@
+/**
+ * Small deterministic helpers for output that must be the same for the same
+ * inputs on every machine, such as the local provider's profiles and the
+ * persona avatars.
+ */
+
+export type Random = () => number
+
+// FNV-1a
+export function hashString(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32
+export function createRandom(seed: number): Random {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+export function pickSome<T>(random: Random, items: T[], count: number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled.slice(0, count)
+}
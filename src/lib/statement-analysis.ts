@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { generateValidated, type RequestOptions } from './profile-generation'
+import type { BusinessInfo, ProfileFieldError } from './profile-schema'
+
+export type StatementKey = 'visionStatement' | 'missionStatement'
+
+export type StatementInput = Pick<BusinessInfo, StatementKey>
+
+export const STATEMENTS: { key: StatementKey, title: string }[] = [
+  { key: 'visionStatement', title: 'Vision' },
+  { key: 'missionStatement', title: 'Mission' }
+]
+
+const scoreSchema = z.number().int().min(1).max(10)
+
+export const statementAnalysisSchema = z.object({
+  scores: z.object({
+    clarity: scoreSchema.describe('1-10: how easy it is to tell what the business does or aims for'),
+    specificity: scoreSchema.describe('1-10: how concrete it is about who, what and where'),
+    customerFocus: scoreSchema.describe('1-10: how much it is about customers and their outcomes rather than the company')
+  }),
+  vaguePhrases: z.array(z.object({
+    phrase: z.string().min(1).describe('Wording copied exactly from the statement'),
+    reason: z.string().min(1).describe('Why it is vague, in one short sentence')
+  })),
+  rewrite: z.string().min(1).describe('A sharper version of the statement that keeps its intent and voice')
+})
+
+export type StatementAnalysis = z.infer<typeof statementAnalysisSchema>
+
+export type VaguePhrase = StatementAnalysis['vaguePhrases'][number]
+
+export type ClarityDimension = keyof StatementAnalysis['scores']
+
+export const CLARITY_DIMENSIONS: { key: ClarityDimension, label: string }[] = [
+  { key: 'clarity', label: 'Clarity' },
+  { key: 'specificity', label: 'Specificity' },
+  { key: 'customerFocus', label: 'Customer focus' }
+]
+
+export const clarityReportSchema = z.object({
+  visionStatement: statementAnalysisSchema,
+  missionStatement: statementAnalysisSchema
+})
+
+export type ClarityReport = z.infer<typeof clarityReportSchema>
+
+function containsPhrase(text: string, phrase: string) {
+  return text.toLowerCase().includes(phrase.trim().toLowerCase())
+}
+
+// Phrases are highlighted in the original text, so they have to be in it
+function checkPhrases(statements: StatementInput, report: ClarityReport): ProfileFieldError[] {
+  return STATEMENTS.flatMap(({ key }) => report[key].vaguePhrases.flatMap((vague, index) =>
+    containsPhrase(statements[key], vague.phrase)
+      ? []
+      : [{ path: `${key}.vaguePhrases.${index}.phrase`, message: `"${vague.phrase}" does not appear in the statement; quote it exactly` }]
+  ))
+}
+
+function dropMissingPhrases(statements: StatementInput, report: ClarityReport): ClarityReport {
+  const keep = (key: StatementKey) => ({
+    ...report[key],
+    vaguePhrases: report[key].vaguePhrases.filter(vague => containsPhrase(statements[key], vague.phrase))
+  })
+  return { visionStatement: keep('visionStatement'), missionStatement: keep('missionStatement') }
+}
+
+/**
+ * Scores the vision and mission statements, quotes the phrases that make
+ * them vague and suggests a rewrite of each. Nothing is changed here; the
+ * user decides whether to use a rewrite.
+ */
+export async function requestStatementAnalysis(
+  statements: StatementInput,
+  request: RequestOptions = {}
+): Promise<ClarityReport> {
+  const prompt = `
+    You are a brand strategist reviewing a small business's vision and mission statements before they are used to define its ideal customer.
+
+    Vision Statement: ${statements.visionStatement}
+    Mission Statement: ${statements.missionStatement}
+
+    For each statement:
+    - Score clarity, specificity and customer focus from 1 (poor) to 10 (excellent). Be honest; most first drafts score between 3 and 6.
+    - List the vague phrases, such as "worldwide", "everyone", "innovative" or "solutions", quoting them exactly as written, with a short reason for each. Leave the list empty if there are none.
+    - Write a sharper rewrite that names who the customer is and what changes for them. Keep the intent and roughly the same length, and do not invent facts such as locations or numbers.
+  `
+
+  return generateValidated(prompt, clarityReportSchema, {
+    ...request,
+    check: (report) => checkPhrases(statements, report),
+    fallback: (report) => dropMissingPhrases(statements, report)
+  })
+}
+
+export function averageScore(analysis: StatementAnalysis) {
+  const { scores } = analysis
+  return Math.round((scores.clarity + scores.specificity + scores.customerFocus) / 3 * 10) / 10
+}
+
+/**
+ * True when a rewrite still has prompts such as "[your first market]" for
+ * the user to fill in, as the offline check writes. Such a rewrite is only a
+ * hint; used as it is, the prompts would end up in the profile.
+ */
+export function hasRewritePlaceholders(rewrite: string) {
+  return /\[[^\]]+\]/.test(rewrite)
+}
+
+/** Splits a statement into plain runs and runs matching one of its vague phrases, for highlighting. */
+export function splitByPhrases(text: string, phrases: VaguePhrase[]): { text: string, vague?: VaguePhrase }[] {
+  const lower = text.toLowerCase()
+  const matches = phrases
+    .map(vague => ({ vague, start: lower.indexOf(vague.phrase.trim().toLowerCase()), length: vague.phrase.trim().length }))
+    .filter(match => match.start >= 0 && match.length > 0)
+    .sort((a, b) => a.start - b.start)
+
+  const parts: { text: string, vague?: VaguePhrase }[] = []
+  let position = 0
+  for (const match of matches) {
+    // Overlapping phrases keep the one that starts first
+    if (match.start < position) continue
+    if (match.start > position) parts.push({ text: text.slice(position, match.start) })
+    parts.push({ text: text.slice(match.start, match.start + match.length), vague: match.vague })
+    position = match.start + match.length
+  }
+  if (position < text.length) parts.push({ text: text.slice(position) })
+  return parts
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod'
+import { generateValidated, type RequestOptions } from './profile-generation'
+import type { ProfileFieldError } from './profile-schema'
+
+export type InterviewQuestionKey = 'offering' | 'customers' | 'problem' | 'difference' | 'origin' | 'future'
+
+export interface InterviewQuestion {
+  key: InterviewQuestionKey
+  question: string
+  placeholder: string
+  required: boolean
+}
+
+/** The guided interview, in the order it is asked. */
+export const INTERVIEW_QUESTIONS: InterviewQuestion[] = [
+  { key: 'offering', question: 'What do you sell?', placeholder: 'e.g. handmade ceramic mugs and tableware', required: true },
+  { key: 'customers', question: 'Who buys it?', placeholder: 'e.g. coffee lovers who work from home', required: true },
+  { key: 'problem', question: 'What problem does it solve for them?', placeholder: 'e.g. mass-produced mugs that all look the same', required: true },
+  { key: 'difference', question: 'What makes you different from the alternatives?', placeholder: 'e.g. every piece is thrown by hand in our studio', required: false },
+  { key: 'origin', question: 'Why did you start the business?', placeholder: 'e.g. we wanted everyday objects to feel personal again', required: false },
+  { key: 'future', question: 'If everything goes right, what is different in ten years?', placeholder: 'e.g. people choose fewer, better things for their homes', required: false }
+]
+
+export type InterviewAnswers = Record<InterviewQuestionKey, string>
+
+export const EMPTY_INTERVIEW_ANSWERS: InterviewAnswers = {
+  offering: '',
+  customers: '',
+  problem: '',
+  difference: '',
+  origin: '',
+  future: ''
+}
+
+export const DRAFT_COUNT = 3
+
+const draftSchema = z.object({
+  text: z.string().min(1).describe('The statement itself, one or two sentences'),
+  angle: z.string().min(1).describe('Two to four words naming what this candidate emphasises')
+})
+
+export const statementDraftsSchema = z.object({
+  visions: z.array(draftSchema).length(DRAFT_COUNT),
+  missions: z.array(draftSchema).length(DRAFT_COUNT)
+})
+
+export type StatementDraft = z.infer<typeof draftSchema>
+
+export type StatementDrafts = z.infer<typeof statementDraftsSchema>
+
+export function hasRequiredAnswers(answers: InterviewAnswers) {
+  return INTERVIEW_QUESTIONS.every(question => !question.required || answers[question.key].trim() !== '')
+}
+
+// Candidates that say the same thing give the user nothing to choose between
+function checkDistinctDrafts(drafts: StatementDrafts): ProfileFieldError[] {
+  return (['visions', 'missions'] as const).flatMap(kind => {
+    const seen = new Set<string>()
+    return drafts[kind].flatMap((draft, index) => {
+      const text = draft.text.trim().toLowerCase()
+      const duplicate = seen.has(text)
+      seen.add(text)
+      return duplicate ? [{ path: `${kind}.${index}.text`, message: 'Repeats another candidate; offer a different angle' }] : []
+    })
+  })
+}
+
+/**
+ * Drafts candidate vision and mission statements from the interview
+ * answers, each taking a different angle so the user has a real choice.
+ */
+export async function requestStatementDrafts(
+  answers: InterviewAnswers,
+  request: RequestOptions = {}
+): Promise<StatementDrafts> {
+  const prompt = `
+    You are a brand strategist helping a small business owner who has no vision or mission statement yet.
+    They answered a short interview:
+
+    ${INTERVIEW_QUESTIONS.map(question => `${question.question} ${answers[question.key].trim() || '(not answered)'}`).join('\n    ')}
+
+    Write ${DRAFT_COUNT} candidate vision statements and ${DRAFT_COUNT} candidate mission statements.
+    A vision describes the future the business is working towards; a mission describes what it does today, for whom, and why.
+    Make every candidate specific to these answers: name the customer and what changes for them, and avoid buzzwords such as "innovative", "world-class" or "solutions".
+    Give each candidate a different angle, for example the customer's outcome, the craft or method, or the founder's purpose.
+    Use plain language and do not invent facts such as locations, numbers or awards.
+  `
+
+  return generateValidated(prompt, statementDraftsSchema, {
+    ...request,
+    check: checkDistinctDrafts
+  })
+}
@@ -0,0 +1,246 @@
+/**
+ * The small template language of export templates:
+ *
+ *   {{business.visionStatement}}        inserts a value; lists are joined with commas
+ *   {{#each painPoints}}- {{this}}{{/each}}
+ *                                       repeats for every item; {{@number}} counts from 1
+ *   {{#if antiPersona}}...{{else}}...{{/if}}
+ *                                       for values a profile may not have
+ *
+ * Inside {{#each}} over records, their fields can be named directly, and
+ * names not found there are looked up in the enclosing scopes. A block tag
+ * alone on its line removes that line, so blocks leave no blank lines.
+ */
+
+export class TemplateSyntaxError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'TemplateSyntaxError'
+    this.line = line
+  }
+}
+
+/** A placeholder that could not be filled; the template still renders. */
+export interface TemplateProblem {
+  line: number
+  message: string
+}
+
+export interface TemplateResult {
+  output: string
+  problems: TemplateProblem[]
+}
+
+type TemplateNode =
+  | { type: 'text', text: string }
+  | { type: 'value', path: string, line: number }
+  | { type: 'each', path: string, line: number, body: TemplateNode[] }
+  | { type: 'if', path: string, line: number, body: TemplateNode[], otherwise: TemplateNode[] }
+
+type Tag =
+  | { kind: 'value' | 'each' | 'if', path: string }
+  | { kind: 'else' | 'end-each' | 'end-if' }
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g
+const PATH_PATTERN = /^(?:@number|this(?:\.[A-Za-z_]\w*)*|[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)$/
+
+function readTag(inner: string, line: number): Tag {
+  const text = inner.trim()
+  const [keyword, ...rest] = text.split(/\s+/)
+  const path = rest.join(' ')
+  const checkPath = (value: string) => {
+    if (!PATH_PATTERN.test(value)) throw new TemplateSyntaxError(`"${value}" is not a placeholder name`, line)
+    return value
+  }
+
+  if (keyword === '#each' || keyword === '#if') {
+    if (!path) throw new TemplateSyntaxError(`{{${keyword}}} needs a name, such as {{${keyword} painPoints}}`, line)
+    return { kind: keyword === '#each' ? 'each' : 'if', path: checkPath(path) }
+  }
+  if (text === '/each') return { kind: 'end-each' }
+  if (text === '/if') return { kind: 'end-if' }
+  if (text === 'else') return { kind: 'else' }
+  if (text.startsWith('#') || text.startsWith('/')) {
+    throw new TemplateSyntaxError(`Unknown tag {{${text}}}; blocks are {{#each}} and {{#if}}`, line)
+  }
+  if (!text) throw new TemplateSyntaxError('Empty placeholder {{}}', line)
+  return { kind: 'value', path: checkPath(text) }
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'each' | 'if' }>
+  inElse: boolean
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const open: OpenBlock[] = []
+  const current = () => {
+    const block = open[open.length - 1]
+    if (!block) return root
+    return block.inElse && block.node.type === 'if' ? block.node.otherwise : block.node.body
+  }
+  const pushText = (text: string) => {
+    if (text) current().push({ type: 'text', text })
+  }
+
+  let cursor = 0
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const start = match.index!
+    const end = start + match[0].length
+    const line = source.slice(0, start).split('\n').length
+    const tag = readTag(match[1], line)
+
+    // A block tag alone on its line takes the whole line, newline included
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1
+    const newline = source.indexOf('\n', end)
+    const lineEnd = newline === -1 ? source.length : newline + 1
+    const standalone = tag.kind !== 'value'
+      && lineStart >= cursor
+      && /^[ \t]*$/.test(source.slice(lineStart, start))
+      && /^[ \t]*\r?\n?$/.test(source.slice(end, lineEnd))
+    pushText(source.slice(cursor, standalone ? lineStart : start))
+    cursor = standalone ? lineEnd : end
+
+    switch (tag.kind) {
+      case 'value':
+        current().push({ type: 'value', path: tag.path, line })
+        break
+      case 'each':
+      case 'if': {
+        const node: OpenBlock['node'] = tag.kind === 'each'
+          ? { type: 'each', path: tag.path, line, body: [] }
+          : { type: 'if', path: tag.path, line, body: [], otherwise: [] }
+        current().push(node)
+        open.push({ node, inElse: false })
+        break
+      }
+      case 'else': {
+        const block = open[open.length - 1]
+        if (!block || block.node.type !== 'if' || block.inElse) {
+          throw new TemplateSyntaxError('{{else}} only works once inside {{#if}}', line)
+        }
+        block.inElse = true
+        break
+      }
+      case 'end-each':
+      case 'end-if': {
+        const expected = tag.kind === 'end-each' ? 'each' : 'if'
+        const block = open.pop()
+        if (!block) throw new TemplateSyntaxError(`{{/${expected}}} has no matching {{#${expected}}}`, line)
+        if (block.node.type !== expected) {
+          throw new TemplateSyntaxError(`{{/${expected}}} closes the {{#${block.node.type} ${block.node.path}}} opened on line ${block.node.line}`, line)
+        }
+      }
+    }
+  }
+  pushText(source.slice(cursor))
+
+  const unclosed = open[open.length - 1]
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.node.type} ${unclosed.node.path}}} is never closed with {{/${unclosed.node.type}}}`, unclosed.node.line)
+  }
+  return root
+}
+
+interface Scope {
+  value: unknown
+  /** Set inside {{#each}}: the item's position, from 1. */
+  number?: number
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Inherited names such as `constructor` are not placeholders
+function hasOwn(record: Record<string, unknown>, key: string) {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function lookup(path: string, scopes: Scope[], line: number, problems: TemplateProblem[]): unknown {
+  if (path === '@number') {
+    const loop = [...scopes].reverse().find(scope => scope.number !== undefined)
+    if (!loop) problems.push({ line, message: '{{@number}} only works inside {{#each}}' })
+    return loop?.number
+  }
+
+  const [first, ...rest] = path.split('.')
+  let value: unknown
+  if (first === 'this') {
+    value = scopes[scopes.length - 1].value
+  } else {
+    const scope = [...scopes].reverse().find(candidate => isRecord(candidate.value) && hasOwn(candidate.value, first))
+    if (!scope) {
+      problems.push({ line, message: `Unknown placeholder {{${path}}}` })
+      return undefined
+    }
+    value = (scope.value as Record<string, unknown>)[first]
+  }
+
+  for (const key of rest) {
+    // Sections a profile does not have, such as demographics on a B2B profile, are simply empty
+    if (value === undefined || value === null) return undefined
+    if (!isRecord(value) || !hasOwn(value, key)) {
+      problems.push({ line, message: `Unknown placeholder {{${path}}}` })
+      return undefined
+    }
+    value = value[key]
+  }
+  return value
+}
+
+function format(value: unknown, path: string, line: number, problems: TemplateProblem[]): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) {
+    if (value.some(isRecord)) {
+      problems.push({ line, message: `{{${path}}} is a list of groups of fields; repeat over it with {{#each ${path}}}` })
+      return ''
+    }
+    return value.map(item => format(item, path, line, problems)).join(', ')
+  }
+  if (isRecord(value)) {
+    problems.push({ line, message: `{{${path}}} is a group of fields; name one of them, such as {{${path}.${Object.keys(value)[0]}}}` })
+    return ''
+  }
+  return String(value)
+}
+
+function isTruthy(value: unknown) {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'string') return value.trim() !== ''
+  return Boolean(value)
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], problems: TemplateProblem[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'value':
+        return format(lookup(node.path, scopes, node.line, problems), node.path, node.line, problems)
+      case 'if':
+        return renderNodes(isTruthy(lookup(node.path, scopes, node.line, problems)) ? node.body : node.otherwise, scopes, problems)
+      case 'each': {
+        const list = lookup(node.path, scopes, node.line, problems)
+        if (list === undefined || list === null) return ''
+        if (!Array.isArray(list)) {
+          problems.push({ line: node.line, message: `{{#each ${node.path}}} needs a list, but ${node.path} is a single value` })
+          return ''
+        }
+        return list.map((item, index) => renderNodes(node.body, [...scopes, { value: item, number: index + 1 }], problems)).join('')
+      }
+    }
+  }).join('')
+}
+
+/** Fills a template from `context`. Throws TemplateSyntaxError for templates that cannot be read. */
+export function renderTemplate(source: string, context: Record<string, unknown>): TemplateResult {
+  const problems: TemplateProblem[] = []
+  const output = renderNodes(parseTemplate(source), [{ value: context }], problems)
+  // Loops repeat the same problem once per item
+  const unique = problems.filter((problem, index) => problems.findIndex(other => other.line === problem.line && other.message === problem.message) === index)
+  return { output, problems: unique }
+}
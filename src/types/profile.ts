@@ -0,0 +1,21 @@
+import type {
+  AntiPersona,
+  BusinessInfo,
+  CustomerProfile,
+  FieldRationale,
+  Persona,
+  PersonaSegment,
+  ProfileExport,
+  ProfilePatch,
+  ProfileRationales,
+  RefinementMessage,
+  SavedProfile
+} from '../lib/profile-schema'
+
+export type { AntiPersona, BusinessInfo, CustomerProfile, FieldRationale, Persona, PersonaSegment, ProfileExport, ProfilePatch, ProfileRationales, RefinementMessage, SavedProfile }
+
+export interface User {
+  id: string
+  email: string
+  displayName?: string
+}